@@ -1,7 +1,16 @@
 #!/usr/bin/env node
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type PromptMessage,
+  type Resource,
+} from "@modelcontextprotocol/sdk/types.js";
 import * as cheerio from "cheerio";
 import {
   Effect,
@@ -17,23 +26,46 @@ import {
   Runtime,
   Scope,
   Exit,
+  Either,
+  Schedule,
+  Duration,
+  Metric,
+  PubSub,
+  Queue,
+  Clock,
+  Fiber,
 } from "effect";
 import { z } from "zod";
 import {
+  FileSystem,
   HttpClient,
   HttpClientRequest,
   HttpClientResponse,
+  Path,
 } from "@effect/platform";
-import { NodeHttpClient } from "@effect/platform-node";
-import puppeteer from "puppeteer";
+import {
+  NodeFileSystem,
+  NodeHttpClient,
+  NodePath,
+} from "@effect/platform-node";
+import puppeteer, { type Browser, type Page } from "puppeteer";
 import Fuse from "fuse.js";
+import { createHash } from "crypto";
+import { homedir } from "os";
+import { dirname, join, resolve } from "path";
 
 // ==== Schemas ====
+// "latest", an exact release or a docs.rs semver requirement such as "0.4"
+const CrateVersionSchema = Schema.String.pipe(
+  Schema.pattern(/^(latest|[~^=]?\d+(\.\d+){0,2}(-[0-9A-Za-z.-]+)?)$/)
+);
+
 const SearchResultSchema = Schema.Struct({
   title: Schema.String,
   url: Schema.String,
   snippet: Schema.String,
   source: Schema.String,
+  score: Schema.Number,
 });
 
 const DocumentationResultSchema = Schema.Struct({
@@ -46,18 +78,75 @@ const DocumentationResultSchema = Schema.Struct({
 const SearchInputSchema = Schema.Struct({
   query: Schema.String,
   source: Schema.optional(Schema.Literal("all", "developer", "hdk", "hdi")),
+  version: Schema.optional(CrateVersionSchema),
 });
 
 const FetchInputSchema = Schema.Struct({
   url: Schema.String,
+  version: Schema.optional(CrateVersionSchema),
+  section: Schema.optional(Schema.String),
+  maxChars: Schema.optional(Schema.Number.pipe(Schema.int(), Schema.positive())),
+  maxTokens: Schema.optional(
+    Schema.Number.pipe(Schema.int(), Schema.positive())
+  ),
+  cursor: Schema.optional(Schema.String),
+});
+
+const OutlineInputSchema = Schema.Struct({
+  url: Schema.String,
+  version: Schema.optional(CrateVersionSchema),
 });
 
 const FunctionInputSchema = Schema.Struct({
   functionName: Schema.String,
+  version: Schema.optional(CrateVersionSchema),
+});
+
+const RustItemKindSchema = Schema.Literal(
+  "struct",
+  "enum",
+  "trait",
+  "macro",
+  "type",
+  "constant",
+  "fn",
+  "mod",
+  "static",
+  "union",
+  "traitalias"
+);
+
+const RustItemInputSchema = Schema.Struct({
+  name: Schema.String,
+  crate: Schema.optional(Schema.Literal("hdk", "hdi")),
+  kind: Schema.optional(RustItemKindSchema),
+  version: Schema.optional(CrateVersionSchema),
+});
+
+const DiffFunctionInputSchema = Schema.Struct({
+  functionName: Schema.String,
+  fromVersion: CrateVersionSchema,
+  toVersion: CrateVersionSchema,
+});
+
+const DiffModuleInputSchema = Schema.Struct({
+  module: Schema.String,
+  fromVersion: CrateVersionSchema,
+  toVersion: CrateVersionSchema,
+});
+
+const MigrationInputSchema = Schema.Struct({
+  fromVersion: CrateVersionSchema,
+  toVersion: CrateVersionSchema,
 });
 
 const ConceptInputSchema = Schema.Struct({
   concept: Schema.String,
+  section: Schema.optional(Schema.String),
+});
+
+const WorkspaceInputSchema = Schema.Struct({
+  workspacePath: Schema.String,
 });
 
 const HdkFunctionSchema = Schema.Struct({
@@ -65,19 +154,162 @@ const HdkFunctionSchema = Schema.Struct({
   url: Schema.String,
 });
 
+const RustItemSchema = Schema.Struct({
+  name: Schema.String,
+  kind: Schema.String,
+  modulePath: Schema.String,
+  url: Schema.String,
+  description: Schema.optional(Schema.String),
+});
+
+const ConceptPageSchema = Schema.Struct({
+  title: Schema.String,
+  url: Schema.String,
+  aliases: Schema.Array(Schema.String),
+});
+
+const GlossaryEntrySchema = Schema.Struct({
+  term: Schema.String,
+  anchor: Schema.String,
+  url: Schema.String,
+  aliases: Schema.Array(Schema.String),
+  definition: Schema.String,
+  seeAlso: Schema.Array(Schema.String),
+});
+
+const TermInputSchema = Schema.Struct({
+  term: Schema.String,
+});
+
+const RustDocSectionSchema = Schema.Struct({
+  heading: Schema.String,
+  content: Schema.String,
+});
+
+const RustParameterSchema = Schema.Struct({
+  name: Schema.String,
+  type: Schema.String,
+});
+
+const RustItemPageSchema = Schema.Struct({
+  name: Schema.String,
+  path: Schema.String,
+  url: Schema.String,
+  signature: Schema.String,
+  generics: Schema.Array(Schema.String),
+  whereBounds: Schema.Array(Schema.String),
+  parameters: Schema.Array(RustParameterSchema),
+  returnType: Schema.optional(Schema.String),
+  summary: Schema.String,
+  sections: Schema.Array(RustDocSectionSchema),
+  examples: Schema.Array(Schema.String),
+  deprecated: Schema.optional(Schema.String),
+});
+
+const PageCacheEntrySchema = Schema.Struct({
+  url: Schema.String,
+  file: Schema.String,
+  fetchedAt: Schema.Number,
+  lastAccessed: Schema.Number,
+  source: Schema.Literal("http", "puppeteer"),
+  contentHash: Schema.String,
+  size: Schema.Number,
+  etag: Schema.optional(Schema.String),
+  lastModified: Schema.optional(Schema.String),
+});
+
+const PageCacheIndexSchema = Schema.Struct({
+  version: Schema.Literal(1),
+  entries: Schema.Array(PageCacheEntrySchema),
+});
+
+const IndexedDocumentSchema = Schema.Struct({
+  url: Schema.String,
+  title: Schema.String,
+  source: Schema.String,
+  contentHash: Schema.String,
+  text: Schema.String,
+  length: Schema.Number,
+  terms: Schema.Record({ key: Schema.String, value: Schema.Number }),
+});
+
+const SearchIndexFileSchema = Schema.Struct({
+  version: Schema.Literal(1),
+  documents: Schema.Array(IndexedDocumentSchema),
+});
+
+const KnownPageSchema = Schema.Struct({
+  url: Schema.String,
+  path: Schema.String,
+  title: Schema.String,
+  lastSeen: Schema.Number,
+});
+
+const SiteRegistryFileSchema = Schema.Struct({
+  version: Schema.Literal(1),
+  crawledAt: Schema.Number,
+  pages: Schema.Array(KnownPageSchema),
+});
+
 type SearchResult = Schema.Schema.Type<typeof SearchResultSchema>;
 type DocumentationResult = Schema.Schema.Type<typeof DocumentationResultSchema>;
 type SearchInput = Schema.Schema.Type<typeof SearchInputSchema>;
 type FetchInput = Schema.Schema.Type<typeof FetchInputSchema>;
+type OutlineInput = Schema.Schema.Type<typeof OutlineInputSchema>;
 type FunctionInput = Schema.Schema.Type<typeof FunctionInputSchema>;
+type RustItemKind = Schema.Schema.Type<typeof RustItemKindSchema>;
+type RustItemInput = Schema.Schema.Type<typeof RustItemInputSchema>;
+type DiffFunctionInput = Schema.Schema.Type<typeof DiffFunctionInputSchema>;
+type DiffModuleInput = Schema.Schema.Type<typeof DiffModuleInputSchema>;
+type MigrationInput = Schema.Schema.Type<typeof MigrationInputSchema>;
 type ConceptInput = Schema.Schema.Type<typeof ConceptInputSchema>;
+type WorkspaceInput = Schema.Schema.Type<typeof WorkspaceInputSchema>;
 type HdkFunction = Schema.Schema.Type<typeof HdkFunctionSchema>;
+type RustItem = Schema.Schema.Type<typeof RustItemSchema>;
+type RustDocSection = Schema.Schema.Type<typeof RustDocSectionSchema>;
+type ConceptPage = Schema.Schema.Type<typeof ConceptPageSchema>;
+type GlossaryEntry = Schema.Schema.Type<typeof GlossaryEntrySchema>;
+type TermInput = Schema.Schema.Type<typeof TermInputSchema>;
+type RustParameter = Schema.Schema.Type<typeof RustParameterSchema>;
+type RustItemPage = Schema.Schema.Type<typeof RustItemPageSchema>;
+type PageCacheEntry = Schema.Schema.Type<typeof PageCacheEntrySchema>;
+type IndexedDocument = Schema.Schema.Type<typeof IndexedDocumentSchema>;
+type KnownPage = Schema.Schema.Type<typeof KnownPageSchema>;
 
 // ==== Error Types ====
+// The request never got a usable response, e.g. a refused connection
 class FetchError extends Schema.TaggedError<FetchError>()("FetchError", {
   message: Schema.String,
 }) {}
 
+class HttpStatusError extends Schema.TaggedError<HttpStatusError>()(
+  "HttpStatusError",
+  {
+    message: Schema.String,
+    url: Schema.String,
+    status: Schema.Number,
+    // Delay a 429 response asked for in its Retry-After header, in ms
+    retryAfter: Schema.optional(Schema.Number),
+  }
+) {}
+
+class TimeoutError extends Schema.TaggedError<TimeoutError>()(
+  "TimeoutError",
+  {
+    message: Schema.String,
+    url: Schema.String,
+  }
+) {}
+
+// Chromium failed to launch, crashed, or couldn't render the page
+class BrowserError extends Schema.TaggedError<BrowserError>()(
+  "BrowserError",
+  {
+    message: Schema.String,
+    url: Schema.optional(Schema.String),
+  }
+) {}
+
 class ParseError extends Schema.TaggedError<ParseError>()("ParseError", {
   message: Schema.String,
 }) {}
@@ -89,322 +321,1857 @@ class NotFoundError extends Schema.TaggedError<NotFoundError>()(
   }
 ) {}
 
+// Every way fetching a page can fail, short of it missing from a mirror
+type PageFetchError = FetchError | HttpStatusError | TimeoutError | BrowserError;
+
 // ==== Configuration ====
+interface RetryPolicy {
+  readonly retries: number;
+  // Delay before the first retry, doubled for each one after it
+  readonly baseDelay: number;
+}
+
 interface HolochainConfig {
   readonly baseUrls: {
     readonly developer: string;
+    readonly docsRs: string;
+  };
+  // Crate versions used when a request doesn't name one
+  readonly defaultVersions: {
     readonly hdk: string;
     readonly hdi: string;
   };
   readonly timeout: number;
   readonly userAgent: string;
+  readonly cache: {
+    readonly directory: string;
+    readonly ttl: number;
+    readonly maxEntries: number;
+    readonly maxBytes: number;
+  };
+  // Puppeteer tabs open at once, and navigations before the browser is
+  // restarted to release the memory Chromium accumulates
+  readonly browser: {
+    readonly maxPages: number;
+    readonly recycleAfter: number;
+  };
+  // Retries per failure class. A 429 response's Retry-After header takes
+  // precedence over the policy's delay, up to maxRetryAfter milliseconds;
+  // a server asking for a longer wait fails the request straight away
+  readonly retry: {
+    readonly timeout: RetryPolicy;
+    readonly serverError: RetryPolicy;
+    readonly rateLimited: RetryPolicy;
+    readonly maxRetryAfter: number;
+  };
+  // Token bucket per host: sustained requests per second and burst size
+  readonly rateLimit: {
+    readonly requestsPerSecond: number;
+    readonly burst: number;
+  };
+  // When set, pages are served exclusively from this prefetched snapshot
+  readonly offlineMirror: Option.Option<string>;
 }
 
 const HolochainConfigService =
   Context.GenericTag<HolochainConfig>("HolochainConfig");
 
-const HolochainConfigLive = Layer.succeed(HolochainConfigService, {
+type RustCrate = keyof HolochainConfig["defaultVersions"];
+
+const rustDocsBaseUrl = (
+  config: HolochainConfig,
+  crate: RustCrate,
+  version: string
+) => `${config.baseUrls.docsRs}/${crate}/${version}/${crate}`;
+
+// Rewrites the version segment of an HDK/HDI URL under the configured docs.rs
+// base URL. Without an explicit version, only "latest" URLs are pinned to the
+// configured default.
+const pinDocsRsVersion = (
+  docsRsBaseUrl: string,
+  defaultVersions: HolochainConfig["defaultVersions"],
+  url: string,
+  version?: string
+): string => {
+  const prefix = `${docsRsBaseUrl}/`;
+  const match = url.startsWith(prefix)
+    ? url.slice(prefix.length).match(/^(hdk|hdi)\/([^/]+)(\/.*)?$/)
+    : null;
+  if (!match || !match[1] || !match[2]) {
+    return url;
+  }
+  const crate = match[1] as RustCrate;
+  const currentVersion = match[2];
+  const targetVersion =
+    version ??
+    (currentVersion === "latest"
+      ? defaultVersions[crate]
+      : currentVersion);
+  return `${prefix}${crate}/${targetVersion}${match[3] ?? ""}`;
+};
+
+const defaultHolochainConfig: HolochainConfig = {
   baseUrls: {
     developer: "https://developer.holochain.org",
-    hdk: "https://docs.rs/hdk/latest/hdk",
-    hdi: "https://docs.rs/hdi/latest/hdi",
+    docsRs: "https://docs.rs",
+  },
+  defaultVersions: {
+    hdk: process.env.HOLOCHAIN_MCP_HDK_VERSION ?? "latest",
+    hdi: process.env.HOLOCHAIN_MCP_HDI_VERSION ?? "latest",
   },
   timeout: 10000,
   userAgent: "Holochain-MCP-Server/1.0.0",
-});
+  cache: {
+    directory:
+      process.env.HOLOCHAIN_MCP_CACHE_DIR ??
+      join(homedir(), ".cache", "holochain-mcp"),
+    ttl: 24 * 60 * 60 * 1000, // 24 hours
+    maxEntries: 500,
+    maxBytes: 100 * 1024 * 1024, // 100 MB
+  },
+  browser: {
+    maxPages: Number(process.env.HOLOCHAIN_MCP_BROWSER_PAGES) || 3,
+    recycleAfter: 100,
+  },
+  retry: {
+    timeout: { retries: 2, baseDelay: 500 },
+    serverError: { retries: 3, baseDelay: 500 },
+    rateLimited: { retries: 3, baseDelay: 1000 },
+    maxRetryAfter: 30_000,
+  },
+  rateLimit: {
+    requestsPerSecond: 5,
+    burst: 10,
+  },
+  offlineMirror: Option.none(),
+};
 
-// ==== HTTP Service ====
-interface HttpService {
-  readonly fetchPage: (url: string) => Effect.Effect<string, FetchError>;
+// ==== Page Cache Service ====
+interface CachedPage {
+  readonly entry: PageCacheEntry;
+  readonly content: string;
 }
 
-const HttpServiceTag = Context.GenericTag<HttpService>("HttpService");
+// A page whose cached content was replaced, or that left the cache because
+// it was removed or evicted
+interface PageCacheChange {
+  readonly url: string;
+  readonly removed: boolean;
+}
+
+interface PageCache {
+  readonly get: (url: string) => Effect.Effect<Option.Option<CachedPage>>;
+  readonly set: (
+    url: string,
+    content: string,
+    metadata: Pick<PageCacheEntry, "source" | "etag" | "lastModified">
+  ) => Effect.Effect<PageCacheEntry>;
+  readonly refresh: (
+    url: string
+  ) => Effect.Effect<Option.Option<PageCacheEntry>>;
+  readonly remove: (url: string) => Effect.Effect<void>;
+  // Pages whose cached content changed or was removed, from the moment of
+  // subscribing until the scope closes
+  readonly changes: Effect.Effect<
+    Queue.Dequeue<PageCacheChange>,
+    never,
+    Scope.Scope
+  >;
+}
 
-// Simple in-memory cache
-const pageCache = new Map<string, { content: string; timestamp: number }>();
-const CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+const PageCacheTag = Context.GenericTag<PageCache>("PageCache");
 
-const HttpServiceLive = Layer.scoped(
-  HttpServiceTag,
+const hashString = (value: string) =>
+  createHash("sha256").update(value).digest("hex");
+
+const PageCacheLive = Layer.effect(
+  PageCacheTag,
   Effect.gen(function* () {
     const config = yield* HolochainConfigService;
-    const httpClient = yield* HttpClient.HttpClient;
+    const fs = yield* FileSystem.FileSystem;
+    const path = yield* Path.Path;
 
-    const browser = yield* Effect.acquireRelease(
-      Effect.tryPromise({
-        try: () =>
-          puppeteer.launch({
-            headless: true,
-            args: [
-              "--no-sandbox",
-              "--disable-setuid-sandbox",
-              "--disable-dev-shm-usage",
-            ],
-          }),
-        catch: (e) =>
-          new FetchError({ message: `Puppeteer launch failed: ${e}` }),
-      }),
-      (browser) => Effect.promise(() => browser.close())
+    const { directory, maxEntries, maxBytes } = config.cache;
+    const pagesDirectory = path.join(directory, "pages");
+    const indexFile = path.join(directory, "index.json");
+
+    yield* fs.makeDirectory(pagesDirectory, { recursive: true }).pipe(
+      Effect.catchAll((error) =>
+        Console.error(`Page cache directory unavailable: ${error}`)
+      )
     );
 
-    const fetchPage = (url: string): Effect.Effect<string, FetchError> => {
-      // Check cache first - but validate cached content quality
-      const cached = pageCache.get(url);
-      if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-        // Validate cached content is still good quality
-        const isGoodCache =
-          cached.content.trim().length > 100 &&
-          !cached.content.includes("404") &&
-          !cached.content.includes("Not Found") &&
-          !cached.content.includes("Error");
-
-        if (isGoodCache) {
-          console.error(`Cache hit for ${url}`);
-          return Effect.succeed(cached.content);
-        } else {
-          // Remove bad cached content and refetch
-          pageCache.delete(url);
-          console.error(`Removing bad cached content for ${url}`);
-        }
+    // Map insertion order doubles as LRU order: least recently used first
+    const entries = new Map<string, PageCacheEntry>();
+
+    const storedIndex = yield* pipe(
+      fs.readFileString(indexFile),
+      Effect.flatMap(
+        Schema.decodeUnknown(Schema.parseJson(PageCacheIndexSchema))
+      ),
+      Effect.option
+    );
+    if (Option.isSome(storedIndex)) {
+      [...storedIndex.value.entries]
+        .sort((a, b) => a.lastAccessed - b.lastAccessed)
+        .forEach((entry) => entries.set(entry.url, entry));
+      console.error(
+        `Loaded ${entries.size} cached pages from ${directory}`
+      );
+    }
+
+    // Serialize index writes so concurrent fetches don't clobber each other
+    const writeLock = yield* Effect.makeSemaphore(1);
+    const changed = yield* PubSub.unbounded<PageCacheChange>();
+
+    const persistIndex = writeLock.withPermits(1)(
+      pipe(
+        Effect.sync(() =>
+          JSON.stringify({ version: 1, entries: [...entries.values()] })
+        ),
+        Effect.flatMap((json) =>
+          fs.writeFileString(`${indexFile}.tmp`, json)
+        ),
+        Effect.zipRight(fs.rename(`${indexFile}.tmp`, indexFile)),
+        Effect.catchAll((error) =>
+          Console.error(`Failed to persist page cache index: ${error}`)
+        )
+      )
+    );
+
+    const removeFile = (entry: PageCacheEntry) =>
+      fs
+        .remove(path.join(pagesDirectory, entry.file))
+        .pipe(Effect.ignore);
+
+    const evict = Effect.gen(function* () {
+      let totalBytes = 0;
+      for (const entry of entries.values()) totalBytes += entry.size;
+
+      while (entries.size > maxEntries || totalBytes > maxBytes) {
+        const oldest = entries.values().next();
+        if (oldest.done) break;
+        entries.delete(oldest.value.url);
+        totalBytes -= oldest.value.size;
+        console.error(`Evicting cached page ${oldest.value.url}`);
+        yield* removeFile(oldest.value);
+        yield* PubSub.publish(changed, { url: oldest.value.url, removed: true });
       }
+    });
 
-      const fetchAndCache = (content: string) => {
-        // Only cache if content is meaningful (not empty and has substantial content)
-        const shouldCache =
-          content.trim().length > 100 &&
-          !content.includes("404") &&
-          !content.includes("Not Found") &&
-          !content.includes("Error");
-
-        if (shouldCache) {
-          pageCache.set(url, { content, timestamp: Date.now() });
-
-          // Clean old cache entries
-          if (pageCache.size > 100) {
-            const cutoff = Date.now() - CACHE_TTL;
-            for (const [key, value] of pageCache.entries()) {
-              if (value.timestamp < cutoff) {
-                pageCache.delete(key);
-              }
-            }
-          }
-        } else {
-          // Remove any existing bad cache entry for this URL
-          pageCache.delete(url);
-          console.error(
-            `Not caching low-quality content for ${url}: ${content.length} chars`
+    const get = (url: string): Effect.Effect<Option.Option<CachedPage>> => {
+      const entry = entries.get(url);
+      if (!entry) {
+        return Effect.succeed(Option.none());
+      }
+
+      return pipe(
+        fs.readFileString(path.join(pagesDirectory, entry.file)),
+        Effect.map((content) => {
+          const touched = { ...entry, lastAccessed: Date.now() };
+          entries.delete(url);
+          entries.set(url, touched);
+          return Option.some({ entry: touched, content });
+        }),
+        Effect.catchAll(() => {
+          // Content file vanished from disk, drop the dangling entry
+          entries.delete(url);
+          return pipe(
+            persistIndex,
+            Effect.zipRight(PubSub.publish(changed, { url, removed: true })),
+            Effect.as(Option.none())
           );
-        }
+        })
+      );
+    };
 
-        return content;
+    const set = (
+      url: string,
+      content: string,
+      metadata: Pick<PageCacheEntry, "source" | "etag" | "lastModified">
+    ): Effect.Effect<PageCacheEntry> => {
+      const now = Date.now();
+      const entry: PageCacheEntry = {
+        url,
+        file: `${hashString(url)}.html`,
+        fetchedAt: now,
+        lastAccessed: now,
+        source: metadata.source,
+        contentHash: hashString(content),
+        size: Buffer.byteLength(content, "utf-8"),
+        ...(metadata.etag !== undefined && { etag: metadata.etag }),
+        ...(metadata.lastModified !== undefined && {
+          lastModified: metadata.lastModified,
+        }),
       };
 
-      if (url.includes("developer.holochain.org")) {
-        return Effect.tryPromise({
-          try: async () => {
-            const page = await browser.newPage();
-            try {
-              // Set a reasonable timeout and wait strategy
-              await page.goto(url, {
-                waitUntil: "domcontentloaded", // Changed from networkidle2 for better performance
-                timeout: Math.min(config.timeout, 15000), // Cap at 15s
-              });
-              const content = await page.content();
-              return fetchAndCache(content);
-            } finally {
-              await page.close();
-            }
-          },
-          catch: (error) =>
-            new FetchError({
-              message: `Puppeteer fetch failed for ${url}: ${error}`,
-            }),
-        }).pipe(
-          Effect.timeout(18000), // Reduced timeout
-          Effect.mapError(
-            () =>
-              new FetchError({
-                message: `Timeout fetching with puppeteer: ${url}`,
-              })
-          )
-        );
-      }
+      const previousHash = entries.get(url)?.contentHash;
 
       return pipe(
-        HttpClientRequest.get(url).pipe(
-          HttpClientRequest.setHeaders({
-            "User-Agent": config.userAgent,
-            Accept:
-              "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-            "Accept-Language": "en-US,en;q=0.5",
-            "Accept-Encoding": "gzip, deflate",
-            Connection: "keep-alive",
+        fs.writeFileString(path.join(pagesDirectory, entry.file), content),
+        Effect.tap(() =>
+          Effect.sync(() => {
+            entries.delete(url);
+            entries.set(url, entry);
           })
         ),
-        httpClient.execute,
-        Effect.flatMap((response) => response.text),
-        Effect.map(fetchAndCache),
-        Effect.mapError(
-          () => new FetchError({ message: `Failed to fetch: ${url}` })
+        Effect.tap(() =>
+          previousHash === entry.contentHash
+            ? Effect.void
+            : PubSub.publish(changed, { url, removed: false })
         ),
-        Effect.timeout(Math.min(config.timeout, 10000)), // Cap timeout at 10s
-        Effect.mapError(
-          () => new FetchError({ message: `Timeout fetching: ${url}` })
-        )
+        Effect.zipRight(evict),
+        Effect.zipRight(persistIndex),
+        Effect.catchAll((error) =>
+          Console.error(`Failed to cache page ${url}: ${error}`)
+        ),
+        Effect.as(entry)
+      );
+    };
+
+    // Marks an entry as freshly fetched without touching its content
+    const refresh = (
+      url: string
+    ): Effect.Effect<Option.Option<PageCacheEntry>> => {
+      const entry = entries.get(url);
+      if (!entry) {
+        return Effect.succeed(Option.none());
+      }
+      const now = Date.now();
+      const refreshed = { ...entry, fetchedAt: now, lastAccessed: now };
+      entries.delete(url);
+      entries.set(url, refreshed);
+      return Effect.as(persistIndex, Option.some(refreshed));
+    };
+
+    const remove = (url: string): Effect.Effect<void> => {
+      const entry = entries.get(url);
+      if (!entry) {
+        return Effect.void;
+      }
+      entries.delete(url);
+      return pipe(
+        removeFile(entry),
+        Effect.zipRight(persistIndex),
+        Effect.zipRight(PubSub.publish(changed, { url, removed: true }))
       );
     };
 
-    return { fetchPage };
+    return {
+      get,
+      set,
+      refresh,
+      remove,
+      changes: PubSub.subscribe(changed),
+    };
   })
-).pipe(Layer.provide(NodeHttpClient.layer));
+).pipe(Layer.provide(NodeFileSystem.layer), Layer.provide(NodePath.layer));
+
+// ==== Retries and Rate Limiting ====
+// Retry-After holds either a number of seconds or an HTTP date
+const parseRetryAfter = (value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Only timeouts, 5xx and 429 responses are worth retrying
+const retryPolicyFor = (
+  retry: HolochainConfig["retry"],
+  error: PageFetchError
+): RetryPolicy | undefined => {
+  if (error._tag === "TimeoutError") return retry.timeout;
+  if (error._tag !== "HttpStatusError") return undefined;
+  if (error.status === 429) return retry.rateLimited;
+  return error.status >= 500 ? retry.serverError : undefined;
+};
+
+const retryAfterOf = (error: PageFetchError): number | undefined =>
+  error._tag === "HttpStatusError" ? error.retryAfter : undefined;
+
+// Exponential backoff with the policy of the latest error's class. A
+// Retry-After beyond the configured maximum isn't waited out: the schedule
+// stops and the request fails with the response's status
+const fetchRetrySchedule = (retry: HolochainConfig["retry"]) =>
+  pipe(
+    Schedule.identity<PageFetchError>(),
+    Schedule.intersect(Schedule.count),
+    Schedule.whileOutput(
+      ([error, attempt]) =>
+        attempt < (retryPolicyFor(retry, error)?.retries ?? 0) &&
+        (retryAfterOf(error) ?? 0) <= retry.maxRetryAfter
+    ),
+    Schedule.addDelay(([error, attempt]) =>
+      Duration.millis(
+        Math.min(
+          retryAfterOf(error) ??
+            (retryPolicyFor(retry, error)?.baseDelay ?? 0) * 2 ** attempt,
+          retry.maxRetryAfter
+        )
+      )
+    )
+  );
 
-// ==== Documentation Parser Service ====
-interface DocumentationParser {
-  readonly parseSearchResults: (
-    html: string,
-    url: string,
-    searchTerms: string[]
-  ) => Effect.Effect<Option.Option<SearchResult>, ParseError>;
-  readonly parseDocumentationPage: (
-    html: string,
-    url: string
-  ) => Effect.Effect<DocumentationResult, ParseError>;
-  readonly parseHdkIndex: (
-    html: string,
-    baseUrl: string
-  ) => Effect.Effect<HdkFunction[], ParseError>;
+interface RateLimiter {
+  // Waits until the URL's host has a request token to spare
+  readonly acquire: (url: string) => Effect.Effect<void>;
 }
 
-const DocumentationParserTag = Context.GenericTag<DocumentationParser>(
-  "DocumentationParser"
-);
+// One token bucket per host. Requests that find the bucket empty reserve a
+// token by driving the count negative and sleep until it has refilled
+const makeRateLimiter = (limit: HolochainConfig["rateLimit"]): RateLimiter => {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  return {
+    acquire: (url) =>
+      Effect.suspend(() => {
+        const host = hostOf(url);
+        const now = Date.now();
+        const bucket = buckets.get(host) ?? {
+          tokens: limit.burst,
+          updatedAt: now,
+        };
+        const refill =
+          ((now - bucket.updatedAt) / 1000) * limit.requestsPerSecond;
+        bucket.tokens = Math.min(limit.burst, bucket.tokens + refill) - 1;
+        bucket.updatedAt = now;
+        buckets.set(host, bucket);
+        return bucket.tokens >= 0
+          ? Effect.void
+          : Effect.sleep(
+              Duration.millis((-bucket.tokens / limit.requestsPerSecond) * 1000)
+            );
+      }),
+  };
+};
 
-const DocumentationParserLive = Layer.succeed(DocumentationParserTag, {
-  parseSearchResults: (
-    html: string,
-    url: string,
-    searchTerms: string[]
-  ): Effect.Effect<Option.Option<SearchResult>, ParseError> =>
-    Effect.try({
-      try: () => {
-        const $ = cheerio.load(html);
-        const title = $("title").text() || $("h1").first().text() || url;
-        const content = $("body").text().toLowerCase();
+const hostOf = (url: string) => (URL.canParse(url) ? new URL(url).host : url);
 
-        // Calculate relevance score
-        const relevanceScore = searchTerms.reduce((score, term) => {
-          const matches = (content.match(new RegExp(term, "gi")) || []).length;
-          return score + matches;
-        }, 0);
+// Whether a failed fetch was down to the connection (including timeouts), an
+// HTTP status, or a page that loaded without usable content
+type FetchFailureKind = "transport" | "status" | "content";
 
-        if (relevanceScore === 0) {
-          return Option.none();
-        }
+const fetchFailures = Metric.counter("holochain_fetch_failures", {
+  description: "Documentation fetches that failed, by host and kind",
+});
 
-        const firstTerm = searchTerms.find((term) => content.includes(term));
-        if (!firstTerm) {
-          return Option.none();
-        }
+const recordFetchFailure = (
+  url: string,
+  kind: FetchFailureKind,
+  detail: string
+): Effect.Effect<void> =>
+  pipe(
+    Metric.increment(fetchFailures),
+    Effect.tagMetrics({
+      host: hostOf(url),
+      kind,
+    }),
+    Effect.zipRight(
+      Console.error(`Fetch failure (${kind}) for ${url}: ${detail}`)
+    )
+  );
 
-        // Extract snippet around first match, but use body text instead of raw HTML
-        const bodyText = $("body").text();
-        const index = bodyText.toLowerCase().indexOf(firstTerm);
-        const start = Math.max(0, index - 100);
-        const end = Math.min(bodyText.length, index + 200);
-        let snippet = bodyText.substring(start, end).trim();
-
-        // Clean up snippet - remove common HTML metadata patterns
-        snippet = snippet
-          .replace(/Circle with shading containing.*?statistic/gi, "")
-          .replace(/YouTube play video icon.*?logo/gi, "")
-          .replace(/Edge_Logo_\d+x\d+/gi, "")
-          .replace(/\s+/g, " ")
-          .trim();
+const fetchFailureKind = (error: PageFetchError): FetchFailureKind =>
+  error._tag === "HttpStatusError" ? "status" : "transport";
 
-        // If snippet is too short or contains metadata, try extracting from main content areas
-        if (snippet.length < 50 || snippet.includes("Circle with shading")) {
-          const mainContentSelectors = [
-            ".main-area",
-            "article",
-            ".content",
-            ".main-content",
-            "main",
-            "[role='main']",
-            "div[class*='content']",
-            "div[class*='main']",
-            "body > div",
-          ];
+// ==== Browser Page Pool ====
+interface BrowserPool {
+  // Renders a page in a pooled tab, waiting for a free tab if all are busy
+  readonly render: (
+    url: string
+  ) => Effect.Effect<string, BrowserError | HttpStatusError | TimeoutError>;
+}
 
-          for (const selector of mainContentSelectors) {
-            const mainContent = $(selector).text().trim();
-            if (mainContent && mainContent.length > snippet.length) {
-              const mainIndex = mainContent.toLowerCase().indexOf(firstTerm);
-              if (mainIndex >= 0) {
-                const mainStart = Math.max(0, mainIndex - 100);
-                const mainEnd = Math.min(mainContent.length, mainIndex + 200);
-                const candidateSnippet = mainContent
-                  .substring(mainStart, mainEnd)
-                  .trim();
-
-                // Clean up candidate snippet
-                const cleanSnippet = candidateSnippet
-                  .replace(/Circle with shading containing.*?statistic/gi, "")
-                  .replace(/YouTube play video icon.*?logo/gi, "")
-                  .replace(/Edge_Logo_\d+x\d+/gi, "")
-                  .replace(/Navigation|Menu|Header|Footer/gi, "")
-                  .replace(/\s+/g, " ")
-                  .trim();
-
-                if (cleanSnippet.length > snippet.length) {
-                  snippet = cleanSnippet;
-                  break;
-                }
-              }
-            }
-          }
-        }
+// Requests that rendered documentation never depends on
+const blockedResourceTypes = new Set(["image", "font", "media"]);
+const blockedHosts =
+  /(^|\.)(google-analytics\.com|googletagmanager\.com|doubleclick\.net|plausible\.io|hotjar\.com|segment\.io)$/;
+
+const isBlockedRequest = (resourceType: string, url: string) => {
+  if (blockedResourceTypes.has(resourceType)) return true;
+  try {
+    return blockedHosts.test(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+};
+
+interface PooledBrowser {
+  readonly browser: Browser;
+  readonly idle: Page[];
+  navigations: number;
+  active: number;
+  retired: boolean;
+}
 
-        const source = url.includes("developer.holochain.org")
-          ? "developer.holochain.org"
-          : url.includes("/hdk/")
-          ? "docs.rs/hdk"
-          : "docs.rs/hdi";
+const BROWSER_RELAUNCH_DELAY = 5 * 60 * 1000;
+
+const launchChromium = (): Promise<Browser> =>
+  puppeteer.launch({
+    headless: true,
+    args: [
+      "--no-sandbox",
+      "--disable-setuid-sandbox",
+      "--disable-dev-shm-usage",
+    ],
+  });
+
+// Shares one Chromium between at most config.browser.maxPages tabs. Tabs are
+// reused between navigations. The browser is launched on first need and
+// replaced after it crashes or has served config.browser.recycleAfter
+// navigations; a retired browser closes once its last tab is returned. A
+// failed launch is remembered for BROWSER_RELAUNCH_DELAY, so machines without
+// Chromium don't retry it on every page, while a passing failure doesn't
+// disable the browser for good. Tests pass their own launcher in place of
+// Chromium.
+const makeBrowserPool = (
+  config: HolochainConfig,
+  launchBrowser: () => Promise<Browser> = launchChromium
+): Effect.Effect<BrowserPool, never, Scope.Scope> =>
+  Effect.gen(function* () {
+    const tabs = yield* Effect.makeSemaphore(config.browser.maxPages);
+    const launchLock = yield* Effect.makeSemaphore(1);
+    const browsers = new Set<PooledBrowser>();
+    let current: PooledBrowser | undefined;
+    let launchFailure: { error: BrowserError; retryAt: number } | undefined;
+
+    const closeBrowser = (pooled: PooledBrowser) =>
+      Effect.promise(() => {
+        browsers.delete(pooled);
+        return pooled.browser.close().catch(() => undefined);
+      });
+
+    const retire = (pooled: PooledBrowser) =>
+      Effect.suspend(() => {
+        pooled.retired = true;
+        if (current === pooled) current = undefined;
+        return pooled.active === 0 ? closeBrowser(pooled) : Effect.void;
+      });
+
+    yield* Effect.addFinalizer(() =>
+      Effect.forEach([...browsers], closeBrowser, { discard: true })
+    );
 
-        return Option.some({
-          title: title.trim(),
-          url,
-          snippet,
-          source,
+    const launch = pipe(
+      Effect.tryPromise({
+        try: launchBrowser,
+        catch: (e) =>
+          new BrowserError({ message: `Puppeteer launch failed: ${e}` }),
+      }),
+      Effect.map((browser) => {
+        const pooled: PooledBrowser = {
+          browser,
+          idle: [],
+          navigations: 0,
+          active: 0,
+          retired: false,
+        };
+        browsers.add(pooled);
+        // A browser that dies while idle has no tab left to close it
+        browser.on("disconnected", () => {
+          browsers.delete(pooled);
+          if (pooled.retired) return;
+          console.error("Browser disconnected, relaunching on next use");
+          pooled.retired = true;
+          if (current === pooled) current = undefined;
         });
-      },
-      catch: (error) =>
-        new ParseError({ message: `Failed to parse search results: ${error}` }),
-    }),
+        return pooled;
+      })
+    );
 
-  parseDocumentationPage: (
-    html: string,
-    url: string
-  ): Effect.Effect<DocumentationResult, ParseError> =>
-    Effect.try({
-      try: () => {
-        const $ = cheerio.load(html);
+    const openPage = (pooled: PooledBrowser) =>
+      Effect.tryPromise({
+        try: async () => {
+          const page = await pooled.browser.newPage();
+          await page.setRequestInterception(true);
+          page.on("request", (request) => {
+            if (request.isInterceptResolutionHandled()) return;
+            return isBlockedRequest(request.resourceType(), request.url())
+              ? request.abort()
+              : request.continue();
+          });
+          return page;
+        },
+        catch: (e) =>
+          new BrowserError({ message: `Failed to open a browser tab: ${e}` }),
+      });
+
+    const checkout = launchLock.withPermits(1)(
+      Effect.gen(function* () {
+        const now = yield* Clock.currentTimeMillis;
+        if (launchFailure && now < launchFailure.retryAt) {
+          return yield* Effect.fail(launchFailure.error);
+        }
+        launchFailure = undefined;
+        if (current && current.navigations >= config.browser.recycleAfter) {
+          console.error(
+            `Recycling browser after ${current.navigations} navigations`
+          );
+          yield* retire(current);
+        }
+        const pooled =
+          current ??
+          (yield* launch.pipe(
+            Effect.tapError((error) =>
+              Effect.sync(() => {
+                launchFailure = {
+                  error,
+                  retryAt: now + BROWSER_RELAUNCH_DELAY,
+                };
+              })
+            )
+          ));
+        current = pooled;
+        pooled.navigations++;
+        pooled.active++;
+
+        const reused = pooled.idle.pop();
+        const page = reused
+          ? reused
+          : yield* openPage(pooled).pipe(
+              Effect.tapError(() =>
+                Effect.sync(() => {
+                  pooled.active--;
+                })
+              )
+            );
+        return { pooled, page };
+      })
+    );
 
-        const result = pipe(
-          url,
-          Match.value,
-          Match.when(
-            (url) => url.includes("developer.holochain.org"),
-            () => {
-              // Improved content extraction for developer.holochain.org
-              let content = "";
-              let title = "";
+    // Tabs that failed may be stuck mid-navigation and are closed, not reused
+    const checkin = (
+      { pooled, page }: { pooled: PooledBrowser; page: Page },
+      failed: boolean
+    ) =>
+      Effect.suspend(() => {
+        pooled.active--;
+        if (!failed && !pooled.retired) {
+          pooled.idle.push(page);
+          return Effect.void;
+        }
+        return pipe(
+          Effect.promise(() => page.close().catch(() => undefined)),
+          Effect.zipRight(
+            pooled.retired && pooled.active === 0
+              ? closeBrowser(pooled)
+              : Effect.void
+          )
+        );
+      });
 
-              // Try multiple selectors for content with comprehensive fallbacks
-              const contentSelectors = [
-                ".main-area",
-                "article",
-                ".content",
-                ".main-content",
+    const navigate = (page: Page, url: string) =>
+      pipe(
+        Effect.tryPromise({
+          try: async () => {
+            // Set a reasonable timeout and wait strategy
+            const response = await page.goto(url, {
+              waitUntil: "domcontentloaded", // Changed from networkidle2 for better performance
+              timeout: Math.min(config.timeout, 15000), // Cap at 15s
+            });
+            const status = response?.status() ?? 200;
+            if (status >= 400) {
+              throw new HttpStatusError({
+                message: `HTTP ${status} rendering: ${url}`,
+                url,
+                status,
+                retryAfter: parseRetryAfter(response?.headers()["retry-after"]),
+              });
+            }
+            return await page.content();
+          },
+          catch: (error) => {
+            if (error instanceof HttpStatusError) return error;
+            return error instanceof Error && error.name === "TimeoutError"
+              ? new TimeoutError({
+                  message: `Timeout fetching with puppeteer: ${url}`,
+                  url,
+                })
+              : new BrowserError({
+                  message: `Puppeteer fetch failed for ${url}: ${error}`,
+                  url,
+                });
+          },
+        }),
+        Effect.timeoutFail({
+          duration: 18000, // Reduced timeout
+          onTimeout: () =>
+            new TimeoutError({
+              message: `Timeout fetching with puppeteer: ${url}`,
+              url,
+            }),
+        })
+      );
+
+    const render = (
+      url: string
+    ): Effect.Effect<string, BrowserError | HttpStatusError | TimeoutError> =>
+      tabs.withPermits(1)(
+        Effect.acquireUseRelease(
+          checkout,
+          ({ page }) => navigate(page, url),
+          (tab, exit) => checkin(tab, Exit.isFailure(exit))
+        )
+      );
+
+    return { render };
+  });
+
+// ==== HTTP Service ====
+interface HttpService {
+  readonly fetchPage: (
+    url: string
+  ) => Effect.Effect<string, PageFetchError | NotFoundError>;
+}
+
+const HttpServiceTag = Context.GenericTag<HttpService>("HttpService");
+
+// 404 and 410 responses mean the page doesn't exist, not that the site
+// is having trouble
+const isGoneStatus = (error: PageFetchError) =>
+  error._tag === "HttpStatusError" &&
+  (error.status === 404 || error.status === 410);
+
+// Error responses fail with HttpStatusError before they get here, so only
+// empty or truncated bodies are kept out of the cache
+const MIN_CACHEABLE_CONTENT = 100;
+
+const isCacheableContent = (content: string) =>
+  content.trim().length > MIN_CACHEABLE_CONTENT;
+
+// Minimum text in a content container for a page to count as rendered
+const MIN_MAIN_CONTENT = 200;
+
+// Whether static HTML already holds the page's content, rather than an app
+// shell that a script fills in
+const hasMainContent = (html: string) => {
+  const $ = cheerio.load(html);
+  $("script, style, noscript").remove();
+  return [".main-area", "main", "article", "#content"].some(
+    (selector) =>
+      $(selector).first().text().replace(/\s+/g, " ").trim().length >=
+      MIN_MAIN_CONTENT
+  );
+};
+
+// Fetches a page over plain HTTP. A stale cache entry carrying ETag or
+// Last-Modified validators is revalidated with a conditional request, and a
+// 304 response only refreshes the entry's timestamp.
+const fetchOverHttp = (
+  url: string,
+  stale: Option.Option<CachedPage>
+): Effect.Effect<
+  string,
+  FetchError | HttpStatusError | TimeoutError,
+  HolochainConfig | HttpClient.HttpClient | PageCache
+> =>
+  Effect.gen(function* () {
+    const config = yield* HolochainConfigService;
+    const httpClient = yield* HttpClient.HttpClient;
+    const pageCache = yield* PageCacheTag;
+
+    const validators = pipe(
+      stale,
+      Option.map(({ entry }) => ({
+        ...(entry.etag !== undefined && { "If-None-Match": entry.etag }),
+        ...(entry.lastModified !== undefined && {
+          "If-Modified-Since": entry.lastModified,
+        }),
+      })),
+      Option.getOrElse(() => ({}))
+    );
+
+    const result = yield* pipe(
+      HttpClientRequest.get(url).pipe(
+        HttpClientRequest.setHeaders({
+          "User-Agent": config.userAgent,
+          Accept:
+            "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+          "Accept-Language": "en-US,en;q=0.5",
+          "Accept-Encoding": "gzip, deflate",
+          Connection: "keep-alive",
+          ...validators,
+        })
+      ),
+      httpClient.execute,
+      Effect.tap((response) =>
+        response.status >= 400
+          ? // The body is drained so the connection can be reused
+            Effect.zipRight(
+              Effect.ignore(response.text),
+              Effect.fail(
+                new HttpStatusError({
+                  message: `HTTP ${response.status} fetching: ${url}`,
+                  url,
+                  status: response.status,
+                  retryAfter: parseRetryAfter(response.headers["retry-after"]),
+                })
+              )
+            )
+          : Effect.void
+      ),
+      Effect.flatMap((response) =>
+        response.status === 304
+          ? Effect.succeed(Option.none<[string, typeof response.headers]>())
+          : Effect.map(response.text, (content) =>
+              Option.some<[string, typeof response.headers]>([
+                content,
+                response.headers,
+              ])
+            )
+      ),
+      Effect.catchTags({
+        RequestError: () =>
+          Effect.fail(new FetchError({ message: `Failed to fetch: ${url}` })),
+        ResponseError: () =>
+          Effect.fail(new FetchError({ message: `Failed to fetch: ${url}` })),
+      }),
+      Effect.timeoutFail({
+        duration: Math.min(config.timeout, 10000), // Cap timeout at 10s
+        onTimeout: () =>
+          new TimeoutError({ message: `Timeout fetching: ${url}`, url }),
+      })
+    );
+
+    if (Option.isNone(result)) {
+      if (Option.isNone(stale)) {
+        return yield* Effect.fail(
+          new FetchError({
+            message: `Unexpected 304 Not Modified without a cached copy: ${url}`,
+          })
+        );
+      }
+      console.error(`Revalidated cached content for ${url}`);
+      yield* pageCache.refresh(url);
+      return stale.value.content;
+    }
+
+    const [content, headers] = result.value;
+    if (isCacheableContent(content)) {
+      yield* pageCache.set(url, content, {
+        source: "http",
+        etag: headers["etag"],
+        lastModified: headers["last-modified"],
+      });
+    } else {
+      yield* recordFetchFailure(
+        url,
+        "content",
+        `not caching low-quality content (${content.length} chars)`
+      );
+      yield* pageCache.remove(url);
+    }
+    return content;
+  });
+
+// Serves pages from a prefetched mirror without touching the network
+const makeOfflineHttpService = (
+  mirror: string,
+  pageCache: PageCache
+): HttpService => ({
+  fetchPage: (url) =>
+    pipe(
+      pageCache.get(url),
+      Effect.flatMap(
+        Option.match({
+          onNone: () =>
+            Effect.fail(
+              new NotFoundError({
+                message: `Page not available in offline mirror ${mirror}: ${url}. Run 'holochain-mcp-server prefetch --out ${mirror}' with network access to add it.`,
+              })
+            ),
+          onSome: ({ content }) => Effect.succeed(content),
+        })
+      )
+    ),
+});
+
+// Pages are added to the search index as they are fetched. Scripts such as
+// rustdoc's search-index.js and sitemaps are not documentation and are left out
+const withSearchIndexing = (
+  service: HttpService,
+  searchIndex: SearchIndex
+): HttpService => ({
+  fetchPage: (url) =>
+    Effect.tap(service.fetchPage(url), (content) =>
+      isCacheableContent(content) && !/\.(js|xml)$/.test(url)
+        ? searchIndex.indexPage(url, content)
+        : Effect.void
+    ),
+});
+
+// Tests pass their own browser launcher, as with makeBrowserPool
+const makeHttpServiceLive = (
+  launchBrowser: () => Promise<Browser> = launchChromium
+) =>
+  Layer.scoped(
+    HttpServiceTag,
+    Effect.gen(function* () {
+      const config = yield* HolochainConfigService;
+      const pageCache = yield* PageCacheTag;
+      const searchIndex = yield* SearchIndexTag;
+
+      // Pages the cache no longer holds leave the search index with it
+      const cacheChanges = yield* pageCache.changes;
+      yield* Effect.forkScoped(
+        Effect.forever(
+          Effect.flatMap(Queue.take(cacheChanges), ({ url, removed }) =>
+            removed ? searchIndex.removePage(url) : Effect.void
+          )
+        )
+      );
+
+      if (Option.isSome(config.offlineMirror)) {
+        console.error(
+          `Offline mode: serving documentation from ${config.offlineMirror.value}`
+        );
+        return withSearchIndexing(
+          makeOfflineHttpService(config.offlineMirror.value, pageCache),
+          searchIndex
+        );
+      }
+
+      const context = yield* Effect.context<
+        HolochainConfig | HttpClient.HttpClient | PageCache
+      >();
+
+      const browserPool = yield* makeBrowserPool(config, launchBrowser);
+      const rateLimiter = makeRateLimiter(config.rateLimit);
+      const retrySchedule = fetchRetrySchedule(config.retry);
+
+      const fetchStatic = (url: string, stale: Option.Option<CachedPage>) =>
+        Effect.zipRight(
+          rateLimiter.acquire(url),
+          fetchOverHttp(url, stale).pipe(Effect.provide(context))
+        );
+
+      const fetchWithBrowser = (
+        url: string
+      ): Effect.Effect<string, BrowserError | HttpStatusError | TimeoutError> =>
+        pipe(
+          rateLimiter.acquire(url),
+          Effect.zipRight(browserPool.render(url)),
+          Effect.tap((content) => {
+            if (isCacheableContent(content)) {
+              return pageCache.set(url, content, { source: "puppeteer" });
+            }
+            return Effect.zipRight(
+              recordFetchFailure(
+                url,
+                "content",
+                `not caching low-quality content (${content.length} chars)`
+              ),
+              pageCache.remove(url)
+            );
+          })
+        );
+
+      // Most of the developer site is static HTML. The browser only renders
+      // pages whose static HTML lacks main content, and if it can't, the
+      // static HTML is still better than nothing. An error status from the
+      // server is final; the browser would only see it again
+      const fetchDeveloperPage = (
+        url: string,
+        stale: Option.Option<CachedPage>
+      ): Effect.Effect<string, PageFetchError> =>
+        Effect.gen(function* () {
+          const staticHtml = yield* Effect.either(fetchStatic(url, stale));
+          if (Either.isRight(staticHtml) && hasMainContent(staticHtml.right)) {
+            return staticHtml.right;
+          }
+          if (Either.isLeft(staticHtml)) {
+            if (staticHtml.left._tag === "HttpStatusError") {
+              return yield* Effect.fail(staticHtml.left);
+            }
+            console.error(
+              `Static fetch failed, rendering ${url}: ${staticHtml.left.message}`
+            );
+            // The static failure says more about the page, and may be retried
+            return yield* fetchWithBrowser(url).pipe(
+              Effect.catchAll((error) => {
+                console.error(`Rendering ${url} failed too: ${error.message}`);
+                return Effect.fail(staticHtml.left);
+              })
+            );
+          }
+
+          console.error(`No main content in static HTML, rendering ${url}`);
+          return yield* fetchWithBrowser(url).pipe(
+            Effect.catchAll((error) => {
+              console.error(`Using static HTML for ${url}: ${error.message}`);
+              // fetchOverHttp cached the app shell. Dropping it means the next
+              // request tries the browser again instead of hitting the cache
+              return Effect.as(pageCache.remove(url), staticHtml.right);
+            })
+          );
+        });
+
+      // Every attempt waits for the host's rate limit. Transient failures are
+      // retried, and only the final failure is recorded
+      const fetchUncached = (
+        url: string,
+        stale: Option.Option<CachedPage>
+      ): Effect.Effect<string, PageFetchError> =>
+        pipe(
+          // XML such as sitemap.xml has no main content to render
+          url.startsWith(config.baseUrls.developer) && !url.endsWith(".xml")
+            ? fetchDeveloperPage(url, stale)
+            : fetchStatic(url, stale),
+          Effect.retry(retrySchedule),
+          Effect.tapError((error) =>
+            recordFetchFailure(url, fetchFailureKind(error), error.message)
+          )
+        );
+
+      const fetchPage = (url: string): Effect.Effect<string, PageFetchError> =>
+        Effect.gen(function* () {
+          const cached = yield* pageCache.get(url);
+
+          if (Option.isSome(cached)) {
+            const { entry, content } = cached.value;
+            if (!isCacheableContent(content)) {
+              console.error(`Removing bad cached content for ${url}`);
+              yield* pageCache.remove(url);
+            } else if (Date.now() - entry.fetchedAt < config.cache.ttl) {
+              console.error(`Cache hit for ${url}`);
+              return content;
+            } else {
+              // Stale entry: revalidate, but keep serving it if the network
+              // fails. A page the server says is gone is dropped instead
+              return yield* fetchUncached(url, cached).pipe(
+                Effect.catchAll((error) => {
+                  if (isGoneStatus(error)) {
+                    return Effect.zipRight(
+                      pageCache.remove(url),
+                      Effect.fail(error)
+                    );
+                  }
+                  console.error(
+                    `Serving stale cached content for ${url}: ${error.message}`
+                  );
+                  return Effect.succeed(content);
+                })
+              );
+            }
+          }
+
+          return yield* fetchUncached(url, Option.none());
+        });
+
+      return withSearchIndexing({ fetchPage }, searchIndex);
+    })
+  ).pipe(Layer.provide(NodeHttpClient.layer));
+
+const HttpServiceLive = makeHttpServiceLive();
+
+// ==== HTML to Markdown ====
+type HtmlNode = ReturnType<cheerio.CheerioAPI["root"]>[number]["children"][number];
+
+const droppedTags = new Set([
+  "script",
+  "style",
+  "noscript",
+  "nav",
+  "header",
+  "footer",
+  "button",
+  "form",
+  "svg",
+  "img",
+  "iframe",
+  "template",
+]);
+
+const nodeText = (node: HtmlNode): string => {
+  if (node.nodeType === 3) return node.data;
+  if (!("tagName" in node)) return "";
+  if (node.tagName === "br") return "\n";
+  return node.children.map(nodeText).join("");
+};
+
+const codeLanguage = (node: HtmlNode) => {
+  const classes = [node, ...("children" in node ? node.children : [])]
+    .map((n) => ("attribs" in n ? n.attribs["class"] ?? "" : ""))
+    .join(" ");
+  // rustdoc marks Rust examples with a bare "rust" class
+  return (
+    classes.match(/(?:language|lang)-([\w+-]+)/)?.[1] ??
+    (/\brust\b/.test(classes) ? "rust" : "")
+  );
+};
+
+// Converts page content to Markdown, keeping headings, lists, tables, links
+// and fenced code blocks. Prose whitespace is collapsed; code blocks, lists
+// and tables are rendered separately and spliced back in untouched
+const htmlToMarkdown = (
+  nodes: ReadonlyArray<HtmlNode>,
+  baseUrl: string
+): string => {
+  const verbatim: string[] = [];
+  const protect = (markdown: string) => {
+    verbatim.push(markdown);
+    return `\n\n\u0000${verbatim.length - 1}\u0000\n\n`;
+  };
+  const block = (markdown: string) => `\n\n${markdown}\n\n`;
+  const inline = (children: ReadonlyArray<HtmlNode>) =>
+    htmlToMarkdown(children, baseUrl).replace(/\s*\n+\s*/g, " ");
+
+  const render = (node: HtmlNode): string => {
+    if (node.nodeType === 3) return node.data.replace(/\s+/g, " ");
+    if (!("tagName" in node)) return "";
+
+    const tag = node.tagName.toLowerCase();
+    const children = () => node.children.map(render).join("");
+    if (droppedTags.has(tag)) return "";
+
+    // A heading's id is kept as a {#id} attribute, so outlines and section
+    // links use the page's real anchors
+    const heading = tag.match(/^h([1-6])$/);
+    if (heading) {
+      const text = inline(node.children);
+      const id = node.attribs["id"]?.trim();
+      return text
+        ? block(
+            `${"#".repeat(Number(heading[1]))} ${text}${id ? ` {#${id}}` : ""}`
+          )
+        : "";
+    }
+
+    switch (tag) {
+      case "pre": {
+        const code = nodeText(node).replace(/^\n+|\s+$/g, "");
+        const fence = code.includes("```") ? "~~~~" : "```";
+        return code
+          ? protect(`${fence}${codeLanguage(node)}\n${code}\n${fence}`)
+          : "";
+      }
+      case "code":
+      case "kbd": {
+        const code = nodeText(node).replace(/\s+/g, " ").trim();
+        const tick = code.includes("`") ? "``" : "`";
+        return code ? `${tick}${code}${tick}` : "";
+      }
+      case "a": {
+        const text = children().trim();
+        const href = node.attribs["href"] ?? "";
+        if (!text || !href || /^(#|javascript:)/.test(href)) return text;
+        let target = href;
+        try {
+          target = new URL(href, baseUrl).toString();
+        } catch {
+          // Keep hrefs that don't resolve as written
+        }
+        return `[${text}](${target})`;
+      }
+      case "strong":
+      case "b": {
+        const text = children().trim();
+        return text ? `**${text}**` : "";
+      }
+      case "em":
+      case "i": {
+        const text = children().trim();
+        return text ? `*${text}*` : "";
+      }
+      case "br":
+        return "\n";
+      case "hr":
+        return block("---");
+      case "ul":
+      case "ol": {
+        const items = node.children.filter(
+          (child) => "tagName" in child && child.tagName === "li"
+        );
+        const start = Number(node.attribs["start"] ?? 1);
+        const list = items
+          .map((item, index) => {
+            const marker = tag === "ol" ? `${start + index}. ` : "- ";
+            const body = "children" in item
+              ? htmlToMarkdown(item.children, baseUrl)
+              : "";
+            return `${marker}${body
+              .split("\n")
+              .map((line, lineIndex) =>
+                lineIndex === 0 || line === ""
+                  ? line
+                  : `${" ".repeat(marker.length)}${line}`
+              )
+              .join("\n")}`;
+          })
+          .join("\n");
+        return list ? protect(list) : "";
+      }
+      case "table": {
+        const rows: string[][] = [];
+        const collectRows = (parent: HtmlNode) => {
+          if (!("tagName" in parent)) return;
+          for (const child of parent.children) {
+            if (!("tagName" in child)) continue;
+            if (child.tagName === "tr") {
+              rows.push(
+                child.children
+                  .filter(
+                    (cell) =>
+                      "tagName" in cell &&
+                      (cell.tagName === "td" || cell.tagName === "th")
+                  )
+                  .map((cell) =>
+                    "children" in cell
+                      ? inline(cell.children).replace(/\|/g, "\\|")
+                      : ""
+                  )
+              );
+            } else {
+              collectRows(child);
+            }
+          }
+        };
+        collectRows(node);
+
+        const [header, ...body] = rows;
+        if (!header) return "";
+        const width = Math.max(...rows.map((row) => row.length));
+        const line = (row: string[]) => {
+          const cells = [...row];
+          while (cells.length < width) cells.push("");
+          return `| ${cells.join(" | ")} |`;
+        };
+        return protect(
+          [
+            line(header),
+            `|${" --- |".repeat(width)}`,
+            ...body.map(line),
+          ].join("\n")
+        );
+      }
+      case "blockquote": {
+        const quote = htmlToMarkdown(node.children, baseUrl);
+        return quote
+          ? protect(
+              quote
+                .split("\n")
+                .map((l) => (l ? `> ${l}` : ">"))
+                .join("\n")
+            )
+          : "";
+      }
+      case "p":
+      case "div":
+      case "section":
+      case "article":
+      case "main":
+      case "aside":
+      case "details":
+      case "summary":
+      case "figure":
+      case "figcaption":
+      case "dl":
+      case "dt":
+      case "dd":
+      case "li":
+        return block(children());
+      default:
+        return children();
+    }
+  };
+
+  return nodes
+    .map(render)
+    .join("")
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+    .replace(/\u0000(\d+)\u0000/g, (_, index) => verbatim[Number(index)] ?? "");
+};
+
+// ==== Document Outline ====
+interface OutlineHeading {
+  readonly level: number;
+  readonly text: string;
+  readonly anchor: string;
+}
+
+interface DocumentOutline {
+  readonly title: string;
+  readonly url: string;
+  readonly headings: ReadonlyArray<OutlineHeading>;
+}
+
+// Headings without an id get the slug both rustdoc and the developer site
+// derive from heading text, e.g. "Validation Rules" -> "validation-rules"
+const headingAnchor = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, "")
+    .trim()
+    .replace(/\s+/g, "-");
+
+// Headings of a Markdown page with the line they start on. Lines inside code
+// fences are skipped so Rust attributes and comments aren't taken as headings
+const markdownHeadings = (markdown: string) => {
+  const headings: (OutlineHeading & { line: number })[] = [];
+  const seen = new Map<string, number>();
+  let fence: string | undefined;
+
+  markdown.split("\n").forEach((line, index) => {
+    const fenceMatch = line.match(/^(```|~~~~)/);
+    if (fenceMatch?.[1]) {
+      if (fence === undefined) fence = fenceMatch[1];
+      else if (fence === fenceMatch[1]) fence = undefined;
+      return;
+    }
+    const heading = fence === undefined ? line.match(/^(#{1,6}) (.+)$/) : null;
+    if (!heading?.[1] || !heading[2]) return;
+
+    const [, title = heading[2], id] =
+      heading[2].match(/^(.*?)\s+\{#([^}\s]+)\}$/) ?? [];
+    const text = title
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/[`*]/g, "")
+      .trim();
+    // Repeated headings without an id get numbered anchors, as on GitHub
+    const base = id ?? headingAnchor(text);
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    headings.push({
+      level: heading[1].length,
+      text,
+      anchor: id !== undefined || count === 0 ? base : `${base}-${count}`,
+      line: index,
+    });
+  });
+
+  return headings;
+};
+
+const documentOutline = (doc: DocumentationResult): DocumentOutline => ({
+  title: doc.title,
+  url: doc.url,
+  headings: markdownHeadings(doc.content).map(({ level, text, anchor }) => ({
+    level,
+    text,
+    anchor,
+  })),
+});
+
+// Narrows a page to one heading and everything below it up to the next
+// heading of the same or a higher level. Sections are matched by anchor id,
+// then by heading text
+const selectDocSection = (
+  doc: DocumentationResult,
+  section: string
+): Effect.Effect<DocumentationResult, NotFoundError> => {
+  const headings = markdownHeadings(doc.content);
+  const wanted = section.trim().replace(/^#/, "");
+  const heading =
+    headings.find((h) => h.anchor.toLowerCase() === wanted.toLowerCase()) ??
+    headings.find((h) => h.text.toLowerCase() === wanted.toLowerCase()) ??
+    headings.find((h) => h.text.toLowerCase().includes(wanted.toLowerCase()));
+
+  if (!heading) {
+    return Effect.fail(
+      new NotFoundError({
+        message: `Section not found in ${doc.url}: ${section}. Available sections: ${
+          headings.map((h) => `${h.text} (#${h.anchor})`).join(", ") ||
+          "none"
+        }`,
+      })
+    );
+  }
+
+  const next = headings.find(
+    (h) => h.line > heading.line && h.level <= heading.level
+  );
+  const lines = doc.content.split("\n");
+  return Effect.succeed({
+    ...doc,
+    url: `${doc.url.split("#")[0]}#${heading.anchor}`,
+    content: lines
+      .slice(heading.line, next?.line ?? lines.length)
+      .join("\n")
+      .trim(),
+  });
+};
+
+const formatDocumentOutline = ({ title, url, headings }: DocumentOutline) => {
+  const topLevel = Math.min(...headings.map((h) => h.level));
+  const tree = headings
+    .map((h) => `${"  ".repeat(h.level - topLevel)}- ${h.text} (#${h.anchor})`)
+    .join("\n");
+
+  return `# Outline: ${title}\n\nURL: ${url}\n\n${
+    tree || "This page has no headings."
+  }`;
+};
+
+// ==== Content Pagination ====
+interface ContentPage {
+  readonly doc: DocumentationResult;
+  // 1-based position of this chunk among all chunks of the page
+  readonly part: number;
+  readonly parts: number;
+  readonly nextCursor: Option.Option<string>;
+}
+
+// Rough token estimate for English prose and Rust code
+const CHARS_PER_TOKEN = 4;
+
+// Paragraphs, list groups and whole code fences. Chunks only end between
+// blocks unless a single block is larger than the budget
+const contentBlocks = (content: string) => {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let fence: string | undefined;
+
+  for (const line of content.split("\n")) {
+    const fenceMatch = line.match(/^(```|~~~~)/);
+    if (fenceMatch?.[1]) {
+      if (fence === undefined) fence = fenceMatch[1];
+      else if (fence === fenceMatch[1]) fence = undefined;
+    }
+    if (fence === undefined && line.trim() === "") {
+      if (current.length > 0) blocks.push(current.join("\n"));
+      current = [];
+    } else {
+      current.push(line);
+    }
+  }
+  if (current.length > 0) blocks.push(current.join("\n"));
+  return blocks;
+};
+
+// Splits an oversized block by lines, and overlong lines by characters.
+// Code blocks are closed and reopened so every piece stays a valid fence
+const splitBlock = (block: string, budget: number): string[] => {
+  if (block.length <= budget) return [block];
+
+  const lines = block.split("\n");
+  const opening = lines[0]?.match(/^(```|~~~~)/) ? lines[0] : undefined;
+  const closing = opening?.slice(0, opening.startsWith("~") ? 4 : 3);
+  const body =
+    opening && closing && lines[lines.length - 1] === closing
+      ? lines.slice(1, -1)
+      : lines;
+  const wrap = (text: string) =>
+    opening && closing ? `${opening}\n${text}\n${closing}` : text;
+  const room = Math.max(
+    1,
+    budget - (opening && closing ? opening.length + closing.length + 2 : 0)
+  );
+
+  const pieces: string[] = [];
+  let current = "";
+  for (const line of body) {
+    for (let start = 0; start === 0 || start < line.length; start += room) {
+      const segment = line.slice(start, start + room);
+      const joined = current ? `${current}\n${segment}` : segment;
+      if (current && joined.length > room) {
+        pieces.push(current);
+        current = segment;
+      } else {
+        current = joined;
+      }
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces.map(wrap);
+};
+
+// Deterministic for a given content and budget, so a chunk index always
+// names the same text
+const paginateContent = (content: string, budget: number): string[] => {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const block of contentBlocks(content).flatMap((b) =>
+    splitBlock(b, budget)
+  )) {
+    const joined = current ? `${current}\n\n${block}` : block;
+    // Prefer to start a chunk at a heading once the current one is half full
+    const headingBreak =
+      /^#{1,6} /.test(block) && current.length >= budget / 2;
+    if (current && (joined.length > budget || headingBreak)) {
+      chunks.push(current);
+      current = block;
+    } else {
+      current = joined;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks.length > 0 ? chunks : [""];
+};
+
+// Cursors carry the content hash, budget and chunk index, so any cursor can
+// be replayed later as long as the page is unchanged
+const encodeCursor = (content: string, budget: number, index: number) =>
+  Buffer.from(
+    `${hashString(content).slice(0, 12)}:${budget}:${index}`
+  ).toString("base64url");
+
+const decodeCursor = (cursor: string) => {
+  const match = Buffer.from(cursor, "base64url")
+    .toString("utf8")
+    .match(/^([0-9a-f]{12}):(\d+):(\d+)$/);
+  return match?.[1] && match[2] && match[3]
+    ? Option.some({
+        hash: match[1],
+        budget: Number(match[2]),
+        index: Number(match[3]),
+      })
+    : Option.none();
+};
+
+const pageDocument = (
+  doc: DocumentationResult,
+  options: {
+    readonly maxChars?: number;
+    readonly maxTokens?: number;
+    readonly cursor?: string;
+  }
+): Effect.Effect<ContentPage, ParseError | NotFoundError> =>
+  Effect.gen(function* () {
+    const requested = [
+      options.maxChars,
+      options.maxTokens === undefined
+        ? undefined
+        : options.maxTokens * CHARS_PER_TOKEN,
+    ].filter((limit): limit is number => limit !== undefined);
+
+    let budget = requested.length > 0 ? Math.min(...requested) : undefined;
+    let index = 0;
+    if (options.cursor !== undefined) {
+      const cursor = decodeCursor(options.cursor);
+      if (Option.isNone(cursor)) {
+        return yield* Effect.fail(
+          new ParseError({ message: `Invalid cursor: ${options.cursor}` })
+        );
+      }
+      if (cursor.value.hash !== hashString(doc.content).slice(0, 12)) {
+        return yield* Effect.fail(
+          new NotFoundError({
+            message: `${doc.url} changed since this cursor was issued. Fetch the page again without a cursor`,
+          })
+        );
+      }
+      // The cursor's budget wins so its chunk boundaries stay the same
+      budget = cursor.value.budget;
+      index = cursor.value.index;
+    }
+
+    if (budget === undefined) {
+      return { doc, part: 1, parts: 1, nextCursor: Option.none() };
+    }
+
+    const chunks = paginateContent(doc.content, budget);
+    const chunk = chunks[index];
+    if (chunk === undefined) {
+      return yield* Effect.fail(
+        new NotFoundError({
+          message: `Cursor points past the end of ${doc.url} (${chunks.length} parts)`,
+        })
+      );
+    }
+
+    return {
+      doc: { ...doc, content: chunk },
+      part: index + 1,
+      parts: chunks.length,
+      nextCursor:
+        index + 1 < chunks.length
+          ? Option.some(encodeCursor(doc.content, budget, index + 1))
+          : Option.none(),
+    };
+  });
+
+const formatContentPage = ({ doc, part, parts, nextCursor }: ContentPage) => {
+  const position = parts > 1 ? `\nPart: ${part} of ${parts}` : "";
+  const continuation = Option.match(nextCursor, {
+    onNone: () => (parts > 1 ? "\n\n---\nEnd of document." : ""),
+    onSome: (cursor) =>
+      `\n\n---\nMore content available. Next cursor: ${cursor}`,
+  });
+  return `# ${doc.title}\n\nSource: ${doc.source}\nURL: ${doc.url}${position}\n\n${doc.content}${continuation}`;
+};
+
+// ==== Documentation Parser Service ====
+interface DocumentationParser {
+  readonly parseDocumentationPage: (
+    html: string,
+    url: string
+  ) => Effect.Effect<DocumentationResult, ParseError>;
+  readonly parseHdkIndex: (
+    html: string,
+    baseUrl: string
+  ) => Effect.Effect<HdkFunction[], ParseError>;
+  readonly parseRustItemPage: (
+    html: string,
+    url: string
+  ) => Effect.Effect<RustItemPage, ParseError>;
+  readonly parseSearchIndexLocation: (
+    html: string,
+    pageUrl: string
+  ) => Effect.Effect<string, ParseError>;
+  readonly parseSearchIndex: (
+    js: string,
+    crate: string,
+    docsRoot: string
+  ) => Effect.Effect<RustItem[], ParseError>;
+  readonly parseSiteNavigation: (
+    html: string,
+    pageUrl: string
+  ) => Effect.Effect<ConceptPage[], ParseError>;
+  readonly parseSitemap: (xml: string) => Effect.Effect<string[], ParseError>;
+  readonly parsePageLinks: (
+    html: string,
+    pageUrl: string
+  ) => Effect.Effect<
+    { readonly title: string; readonly links: string[] },
+    ParseError
+  >;
+  readonly parseGlossary: (
+    html: string,
+    pageUrl: string
+  ) => Effect.Effect<GlossaryEntry[], ParseError>;
+}
+
+// Concept and build-guide pages, but not the section index pages themselves
+const isGuidePath = (pathname: string) =>
+  /^\/(concepts|build)\/[^/]+/.test(pathname);
+
+// "/concepts/3_source_chain/" -> "source chain"
+const guidePageSlug = (pathname: string) =>
+  (pathname.split("/").filter(Boolean).pop() ?? "")
+    .replace(/^\d+_/, "")
+    .replace(/[_-]+/g, " ")
+    .toLowerCase();
+
+// A same-site page URL without its query, fragment or trailing slash, or
+// none for other sites and non-page files such as images and feeds
+const crawlableUrl = (
+  href: string,
+  pageUrl: string
+): Option.Option<string> => {
+  let url: URL;
+  try {
+    url = new URL(href, pageUrl);
+  } catch {
+    return Option.none();
+  }
+  if (
+    url.origin !== new URL(pageUrl).origin ||
+    /\.(?!html?$)[a-z0-9]+$/i.test(url.pathname)
+  ) {
+    return Option.none();
+  }
+  return Option.some(`${url.origin}${url.pathname.replace(/\/+$/, "")}`);
+};
+
+// rustdoc's ItemType order. search-index.js encodes each item's type as the
+// character at code 65 + index
+const rustdocItemTypes = [
+  "keyword",
+  "primitive",
+  "mod",
+  "externcrate",
+  "import",
+  "struct",
+  "enum",
+  "fn",
+  "type",
+  "static",
+  "trait",
+  "impl",
+  "tymethod",
+  "method",
+  "structfield",
+  "variant",
+  "macro",
+  "associatedtype",
+  "constant",
+  "associatedconstant",
+  "union",
+  "foreigntype",
+  "existential",
+  "attr",
+  "derive",
+  "traitalias",
+];
+
+// Item kinds that get a page of their own, mapped to the page's file prefix.
+// Methods, fields and variants live on their parent's page and are skipped
+const rustItemPagePrefixes: Record<string, string> = {
+  mod: "index",
+  struct: "struct",
+  enum: "enum",
+  fn: "fn",
+  type: "type",
+  static: "static",
+  trait: "trait",
+  macro: "macro",
+  constant: "constant",
+  union: "union",
+  attr: "attr",
+  derive: "derive",
+  traitalias: "traitalias",
+};
+
+// The per-crate fields of search-index.js used here: item names, item types
+// and module paths, plus descriptions on rustdoc versions that inline them
+interface RustdocCrateIndex {
+  readonly n?: string[];
+  readonly t?: string | number[];
+  readonly q?: unknown;
+  readonly d?: unknown;
+}
+
+// Older rustdoc lists one path per item, with "" meaning "same as the
+// previous item". Newer rustdoc only lists [index, path] pairs where the path
+// changes. Both expand to one module path per item
+const expandItemPaths = (
+  paths: unknown,
+  count: number,
+  crate: string
+): string[] => {
+  const changes = new Map<number, string>();
+  if (Array.isArray(paths)) {
+    paths.forEach((entry, index) => {
+      if (Array.isArray(entry) && typeof entry[1] === "string") {
+        changes.set(Number(entry[0]), entry[1]);
+      } else if (typeof entry === "string" && entry.length > 0) {
+        changes.set(index, entry);
+      }
+    });
+  }
+
+  const expanded: string[] = [];
+  let current = crate;
+  for (let index = 0; index < count; index++) {
+    current = changes.get(index) ?? current;
+    expanded.push(current);
+  }
+  return expanded;
+};
+
+const DocumentationParserTag = Context.GenericTag<DocumentationParser>(
+  "DocumentationParser"
+);
+
+// Index of the bracket closing the one at `start`. "->" is an arrow, not a
+// closing angle bracket
+const closingBracket = (text: string, start: number) => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if ("(<[{".includes(char ?? "")) depth++;
+    if (")]}".includes(char ?? "") || (char === ">" && text[i - 1] !== "-")) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return text.length;
+};
+
+// Splits on commas outside any brackets
+const splitTopLevel = (text: string) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i] ?? "";
+    if ("(<[{".includes(char)) depth++;
+    if (")]}".includes(char) || (char === ">" && text[i - 1] !== "-")) depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map((part) => part.trim()).filter((part) => part.length > 0);
+};
+
+// Breaks a rustdoc declaration such as
+//   pub fn create_entry<I, E>(input: I) -> ExternResult<ActionHash>
+//   where Entry: TryFrom<I, Error = E>,
+// into its generic parameters, where-clause bounds, parameters and return type
+const parseRustSignature = (
+  signature: string
+): {
+  generics: string[];
+  whereBounds: string[];
+  parameters: RustParameter[];
+  returnType?: string;
+} => {
+  const flat = signature.replace(/\s+/g, " ").trim();
+  const header = flat.match(/\b(fn|struct|enum|trait|type|union)\s+\w+\s*/);
+  if (!header || header.index === undefined) {
+    return { generics: [], whereBounds: [], parameters: [] };
+  }
+
+  let rest = flat.slice(header.index + header[0].length);
+  let generics: string[] = [];
+  if (rest.startsWith("<")) {
+    const end = closingBracket(rest, 0);
+    generics = splitTopLevel(rest.slice(1, end));
+    rest = rest.slice(end + 1).trim();
+  }
+
+  let parameters: RustParameter[] = [];
+  let returnType: string | undefined;
+  if (header[1] === "fn" && rest.startsWith("(")) {
+    const end = closingBracket(rest, 0);
+    parameters = splitTopLevel(rest.slice(1, end)).map((parameter) => {
+      const typed = parameter.match(/^([^:]+?)\s*:(?!:)\s*(.+)$/);
+      // Receivers like &self and &mut self have no separate type
+      return typed?.[1] && typed[2]
+        ? { name: typed[1], type: typed[2] }
+        : { name: "self", type: parameter };
+    });
+    rest = rest.slice(end + 1).trim();
+    returnType = rest.match(/^->\s*(.+?)(?:\s+where\b.*)?;?$/)?.[1];
+  }
+
+  const whereClause = rest.match(/\bwhere\s+([^{;]*)/)?.[1] ?? "";
+  return {
+    generics,
+    whereBounds: splitTopLevel(whereClause),
+    parameters,
+    ...(returnType ? { returnType } : {}),
+  };
+};
+
+const DocumentationParserLive = Layer.succeed(DocumentationParserTag, {
+  parseDocumentationPage: (
+    html: string,
+    url: string
+  ): Effect.Effect<DocumentationResult, ParseError> =>
+    Effect.try({
+      try: () => {
+        const $ = cheerio.load(html);
+
+        const result = pipe(
+          url,
+          Match.value,
+          Match.when(
+            (url) => url.includes("developer.holochain.org"),
+            () => {
+              // Improved content extraction for developer.holochain.org.
+              // Candidates are scored on their text, the winner is returned
+              // as Markdown
+              let content = "";
+              let markdown = "";
+              let title = "";
+
+              // Try multiple selectors for content with comprehensive fallbacks
+              const contentSelectors = [
+                ".main-area",
+                "article",
+                ".content",
+                ".main-content",
                 "main",
                 "[role='main']",
                 ".container .content",
@@ -452,6 +2219,7 @@ const DocumentationParserLive = Layer.succeed(DocumentationParserTag, {
                     if (contentScore > content.length + 100) {
                       // Require significant improvement
                       content = candidateContent;
+                      markdown = htmlToMarkdown(cleanElement.toArray(), url);
                     }
                   });
 
@@ -468,23 +2236,23 @@ const DocumentationParserLive = Layer.succeed(DocumentationParserTag, {
                   )
                   .remove();
                 content = bodyContent.text().trim();
+                markdown = htmlToMarkdown(bodyContent.toArray(), url);
               }
 
               // Extract title - prefer title tag for page titles
               title =
                 $("title").text().trim() || $("h1").first().text().trim() || "";
 
-              // Clean up content - remove extra whitespace and common navigation text
-              content = content
-                .replace(/\s+/g, " ")
+              // Clean up content - drop lines that are only navigation text
+              content = markdown
                 .replace(
-                  /Get Started|Developers|Navigation|Menu|Search|Home|Back to top|Skip to|Table of contents/gi,
+                  /^(Get Started|Developers|Navigation|Menu|Search|Home|Back to top|Skip to.*|Table of contents|Header|Footer)$/gim,
                   ""
                 )
                 .replace(/Circle with shading containing.*?statistic/gi, "")
                 .replace(/YouTube play video icon.*?logo/gi, "")
                 .replace(/Edge_Logo_\d+x\d+/gi, "")
-                .replace(/^\s*(Navigation|Menu|Header|Footer)\s*/gi, "")
+                .replace(/\n{3,}/g, "\n\n")
                 .trim();
 
               return {
@@ -509,12 +2277,25 @@ const DocumentationParserLive = Layer.succeed(DocumentationParserTag, {
                 $("title").text() ||
                 "";
 
-              // Extract documentation content
+              // Drop rustdoc chrome: section anchors, toolbars, source links
+              // and "Expand description" toggles
+              $(
+                "nav, .sidebar, rustdoc-toolbar, .out-of-band, a.doc-anchor, a.anchor, .tooltip, summary.hideme"
+              ).remove();
+
+              // The item page as a whole carries the declaration and item
+              // tables as well as the docs
+              const mainContent = $("#main-content");
+              if (mainContent.length > 0) {
+                content = htmlToMarkdown(mainContent.toArray(), url);
+              }
+
+              // Otherwise fall back to the docblocks
               const docblocks = $(".docblock");
-              if (docblocks.length > 0) {
+              if (!content && docblocks.length > 0) {
                 content = docblocks
-                  .map((_, el) => $(el).text().trim())
-                  .get()
+                  .toArray()
+                  .map((el) => htmlToMarkdown([el], url))
                   .filter((text) => text.length > 0)
                   .join("\n\n");
               }
@@ -532,32 +2313,26 @@ const DocumentationParserLive = Layer.succeed(DocumentationParserTag, {
                 for (const selector of contentSelectors) {
                   const element = $(selector);
                   if (element.length > 0) {
-                    element.find("nav, .nav, .sidebar").remove();
-                    content = element.text().trim();
+                    element.find(".nav").remove();
+                    content = htmlToMarkdown(element.toArray(), url);
                     if (content.length > 20) break; // Lower threshold for signatures
                   }
                 }
               }
 
-              // Always try to extract function signature from .fqn and include it
-              const fqnContent = $(".fqn").text().trim();
-              if (fqnContent) {
-                if (!content || content.length < 50) {
-                  content = `Function signature: ${fqnContent}\n\n${
-                    content || "No additional documentation available."
-                  }`;
-                } else if (
-                  !content.toLowerCase().includes("externresult") &&
-                  !content.includes(fqnContent)
-                ) {
-                  // Prepend signature if not already included and doesn't have signature content
-                  content = `Function signature: ${fqnContent}\n\n${content}`;
-                }
+              // The declaration lives in .item-decl; .fqn only holds the
+              // item path
+              const signature = $(".item-decl").first().text().trim();
+              const flatten = (text: string) => text.replace(/\s+/g, " ");
+              if (signature && !flatten(content).includes(flatten(signature))) {
+                content = `\`\`\`rust\n${signature}\n\`\`\`\n\n${
+                  content || "No additional documentation available."
+                }`;
               }
 
               // If still no meaningful content, also try body content as last resort
               if (!content || content.length < 50) {
-                const bodyContent = $("body").text().trim();
+                const bodyContent = htmlToMarkdown($("body").toArray(), url);
                 if (bodyContent && bodyContent.length > content.length) {
                   content = bodyContent;
                 }
@@ -565,7 +2340,7 @@ const DocumentationParserLive = Layer.succeed(DocumentationParserTag, {
 
               // Clean title and content
               title = title.replace(/^(pub\s+)?(fn\s+)?/, "").trim();
-              content = content.replace(/\s+/g, " ").trim();
+              content = content.trim();
 
               return {
                 title: title || "Documentation",
@@ -580,8 +2355,7 @@ const DocumentationParserLive = Layer.succeed(DocumentationParserTag, {
           Match.orElse(() => ({
             title: $("title").text() || "Unknown",
             content:
-              $("body").text().replace(/\s+/g, " ").trim() ||
-              "No content found.",
+              htmlToMarkdown($("body").toArray(), url) || "No content found.",
             source: "unknown",
           }))
         );
@@ -691,48 +2465,6 @@ const DocumentationParserLive = Layer.succeed(DocumentationParserTag, {
           `Found ${potentialFunctions.size} potential function names in text`
         );
 
-        // Also look for module-based functions by exploring module pages
-        const modules = [
-          "entry",
-          "link",
-          "agent",
-          "chain",
-          "p2p",
-          "capability",
-          "hash",
-          "info",
-        ];
-        modules.forEach((module) => {
-          // Add common functions we know exist in each module
-          const commonFunctions: Record<string, string[]> = {
-            entry: ["create_entry", "get", "update_entry", "delete_entry"],
-            link: [
-              "create_link",
-              "get_links",
-              "delete_link",
-              "get_link_details",
-            ],
-            agent: ["agent_info"],
-            chain: ["get_chain_head", "query"],
-            p2p: ["call", "call_remote", "emit_signal"],
-            capability: ["create_cap_grant", "create_cap_claim"],
-            hash: ["hash"],
-            info: ["dna_info", "zome_info", "call_info"],
-          };
-
-          if (commonFunctions[module]) {
-            commonFunctions[module].forEach((funcName) => {
-              if (!seenFunctions.has(funcName)) {
-                seenFunctions.add(funcName);
-                functions.push({
-                  name: funcName,
-                  url: `${baseUrl}/${module}/fn.${funcName}.html`,
-                });
-              }
-            });
-          }
-        });
-
         console.error(
           `Found ${functions.length} HDK functions:`,
           functions.map((f) => f.name).slice(0, 10)
@@ -741,335 +2473,2178 @@ const DocumentationParserLive = Layer.succeed(DocumentationParserTag, {
       },
       catch: (error) =>
         new ParseError({ message: `Failed to parse HDK index: ${error}` }),
-    }),
-});
+    }).pipe(
+      // Function URLs are only ever taken from the page, so a page without
+      // any is an error rather than a list to fill in with guesses
+      Effect.filterOrFail(
+        (functions) => functions.length > 0,
+        () =>
+          new ParseError({
+            message: `No function links found on HDK index ${baseUrl}`,
+          })
+      )
+    ),
 
-// ==== Holochain Documentation Service ====
-interface HolochainDocService {
-  readonly searchDeveloperDocs: (
-    query: string
-  ) => Effect.Effect<SearchResult[], FetchError | ParseError>;
-  readonly searchRustDocs: (
-    query: string,
-    docType: "hdk" | "hdi"
-  ) => Effect.Effect<SearchResult[], FetchError | ParseError>;
-  readonly fetchDocumentationPage: (
+  parseRustItemPage: (
+    html: string,
     url: string
-  ) => Effect.Effect<
-    DocumentationResult,
-    FetchError | ParseError | NotFoundError
-  >;
-  readonly getHDKFunctionDocs: (
-    functionName: string
-  ) => Effect.Effect<
-    DocumentationResult,
-    FetchError | ParseError | NotFoundError
-  >;
-  readonly getConceptDocs: (
-    concept: string
-  ) => Effect.Effect<
-    DocumentationResult,
-    FetchError | ParseError | NotFoundError
-  >;
+  ): Effect.Effect<RustItemPage, ParseError> =>
+    Effect.try({
+      try: () => {
+        const $ = cheerio.load(html);
+
+        // docs.rs paths look like /<crate>/<version>/<crate>/<module>/fn.<name>.html
+        const segments = new URL(url).pathname.split("/").filter(Boolean);
+        const itemFile = segments[segments.length - 1] ?? "";
+        const itemMatch = itemFile.match(/^\w+\.(.+)\.html$/);
+        const name =
+          itemMatch?.[1] ??
+          $("h1").first().text().trim().split(/\s+/).pop() ??
+          "";
+        const modulePath = segments.slice(2, itemMatch ? -1 : undefined);
+        const path = [...modulePath, name].filter(Boolean).join("::");
+
+        // rustdoc puts the declaration in .item-decl. .fqn is the item's
+        // path, not its signature
+        const declaration = $(".item-decl").first();
+        const signature = (
+          declaration.find("code").length
+            ? declaration.find("code").first().text()
+            : declaration.text()
+        )
+          .trim()
+          .split("\n")
+          .map((line) => line.trimEnd())
+          .filter((line) => line.trim().length > 0)
+          .join("\n");
+
+        // Deprecated items carry a "Deprecated since ..." banner
+        const deprecated = $(".stab.deprecated")
+          .first()
+          .text()
+          .replace("👎", "")
+          .replace(/\s+/g, " ")
+          .trim();
+
+        const docblock = [
+          $("details.top-doc > .docblock"),
+          $("#main-content > .docblock"),
+          $(".docblock"),
+        ].find((candidate) => candidate.length > 0);
+
+        const summary: string[] = [];
+        const sections: { heading: string; content: string[] }[] = [];
+        const examples: string[] = [];
+
+        docblock
+          ?.first()
+          .children()
+          .each((_, element) => {
+            const $element = $(element);
+            const tag = element.tagName.toLowerCase();
+
+            if (/^h[1-6]$/.test(tag)) {
+              sections.push({
+                heading: $element.text().replace("§", "").trim(),
+                content: [],
+              });
+              return;
+            }
+
+            // Code blocks are kept verbatim and fenced so they survive
+            // rendering as Markdown
+            const code = tag === "pre" ? $element : $element.find("pre");
+            let text: string;
+            if (code.length) {
+              const source = code.first().text().replace(/^\n+|\s+$/g, "");
+              const language =
+                code.first().attr("class")?.match(/language-(\w+)/)?.[1] ??
+                "rust";
+              if (source) examples.push(source);
+              text = source ? `\`\`\`${language}\n${source}\n\`\`\`` : "";
+            } else {
+              text = $element.text().replace(/\s+/g, " ").trim();
+            }
+            if (text) {
+              (sections[sections.length - 1]?.content ?? summary).push(text);
+            }
+          });
+
+        const { generics, whereBounds, parameters, returnType } =
+          parseRustSignature(signature);
+
+        return {
+          name,
+          path,
+          url,
+          signature,
+          generics,
+          whereBounds,
+          parameters,
+          ...(returnType ? { returnType } : {}),
+          summary: summary.join("\n\n"),
+          sections: sections.map(({ heading, content }) => ({
+            heading,
+            content: content.join("\n\n"),
+          })),
+          examples,
+          ...(deprecated ? { deprecated } : {}),
+        };
+      },
+      catch: (error) =>
+        new ParseError({ message: `Failed to parse Rust item page: ${error}` }),
+    }),
+  parseSearchIndexLocation: (
+    html: string,
+    pageUrl: string
+  ): Effect.Effect<string, ParseError> =>
+    Effect.try({
+      try: () => {
+        const $ = cheerio.load(html);
+        const vars = $("#rustdoc-vars, meta[name='rustdoc-vars']").first();
+        if (vars.length === 0) {
+          throw new Error("page has no rustdoc-vars element");
+        }
+
+        const rootPath = vars.attr("data-root-path") ?? "./";
+        const file =
+          vars.attr("data-search-index-js") ??
+          `search-index${vars.attr("data-resource-suffix") ?? ""}.js`;
+        // Bare file names are relative to the documentation root, anything
+        // else already carries its own path
+        return new URL(
+          /^(\.|\/|https?:)/.test(file) ? file : `${rootPath}${file}`,
+          pageUrl
+        ).toString();
+      },
+      catch: (error) =>
+        new ParseError({
+          message: `Failed to locate search index in ${pageUrl}: ${error}`,
+        }),
+    }),
+
+  parseSearchIndex: (
+    js: string,
+    crate: string,
+    docsRoot: string
+  ): Effect.Effect<RustItem[], ParseError> =>
+    Effect.try({
+      try: () => {
+        // The index ships as JSON inside a single-quoted JS string literal
+        const literal = js.match(/JSON\.parse\('((?:[^'\\]|\\.)*)'\)/s)?.[1];
+        if (literal === undefined) {
+          throw new Error("no JSON.parse(...) payload found");
+        }
+        const parsed: unknown = JSON.parse(literal.replace(/\\(.)/g, "$1"));
+        const crates = new Map<string, RustdocCrateIndex>(
+          Array.isArray(parsed)
+            ? (parsed as [string, RustdocCrateIndex][])
+            : Object.entries(parsed as Record<string, RustdocCrateIndex>)
+        );
+        const data = crates.get(crate);
+        if (!data) {
+          throw new Error(`crate ${crate} is missing from the index`);
+        }
+
+        const names = data.n ?? [];
+        const types =
+          typeof data.t === "string"
+            ? [...data.t].map((c) => c.charCodeAt(0) - 65)
+            : data.t ?? [];
+        const descriptions: unknown[] = Array.isArray(data.d) ? data.d : [];
+        const modulePaths = expandItemPaths(data.q, names.length, crate);
+
+        return names.flatMap((name, index) => {
+          const kind = rustdocItemTypes[types[index] ?? -1];
+          const prefix = kind ? rustItemPagePrefixes[kind] : undefined;
+          const modulePath = modulePaths[index] ?? crate;
+          if (!kind || !prefix || !name) {
+            return [];
+          }
+
+          const directory = [docsRoot, ...modulePath.split("::")].join("/");
+          const description = descriptions[index];
+          return [
+            {
+              name,
+              kind,
+              modulePath,
+              url:
+                kind === "mod"
+                  ? `${directory}/${name}/index.html`
+                  : `${directory}/${prefix}.${name}.html`,
+              ...(typeof description === "string" && description.length > 0
+                ? { description }
+                : {}),
+            },
+          ];
+        });
+      },
+      catch: (error) =>
+        new ParseError({
+          message: `Failed to parse ${crate} search index: ${error}`,
+        }),
+    }),
+
+  parseSiteNavigation: (
+    html: string,
+    pageUrl: string
+  ): Effect.Effect<ConceptPage[], ParseError> =>
+    Effect.try({
+      try: () => {
+        const $ = cheerio.load(html);
+        const origin = new URL(pageUrl).origin;
+        const pages = new Map<string, ConceptPage>();
+
+        $(
+          "nav a[href], aside a[href], .sidebar a[href], [class*='nav'] a[href]"
+        )
+          .toArray()
+          .forEach((el) => {
+            const title = $(el).text().replace(/\s+/g, " ").trim();
+            let url: URL;
+            try {
+              url = new URL($(el).attr("href") ?? "", pageUrl);
+            } catch {
+              return;
+            }
+            if (!title || url.origin !== origin || !isGuidePath(url.pathname)) {
+              return;
+            }
+
+            // Pages are keyed without the trailing slash the site links with
+            const key = `${url.origin}${url.pathname.replace(/\/$/, "")}`;
+            if (!pages.has(key)) {
+              pages.set(key, {
+                title,
+                url: key,
+                aliases: [guidePageSlug(url.pathname)],
+              });
+            }
+          });
+
+        return [...pages.values()];
+      },
+      catch: (error) =>
+        new ParseError({ message: `Failed to parse site navigation: ${error}` }),
+    }),
+
+  parseGlossary: (
+    html: string,
+    pageUrl: string
+  ): Effect.Effect<GlossaryEntry[], ParseError> =>
+    Effect.try({
+      try: () => {
+        const $ = cheerio.load(html);
+        $(
+          "script, style, nav, header, footer, a.anchor, a.doc-anchor"
+        ).remove();
+        const root = [".main-area", "article", "main", "body"]
+          .map((selector) => $(selector).first())
+          .find((candidate) => candidate.length > 0);
+        if (!root) return [];
+
+        // Terms are either headings followed by their definition, or
+        // <dt>/<dd> pairs
+        const entries = root
+          .find("h2, h3, h4, dt")
+          .toArray()
+          .flatMap((el) => {
+            const $term = $(el);
+            const heading = $term.text().replace(/\s+/g, " ").trim();
+            const definition =
+              el.tagName === "dt"
+                ? $term.nextUntil("dt", "dd")
+                : $term.nextUntil("h1, h2, h3, h4");
+            const markdown = htmlToMarkdown(definition.toArray(), pageUrl);
+            // Letter dividers like "A" have no definition of their own
+            if (!heading || !markdown) return [];
+
+            const references = definition
+              .find("a[href*='#']")
+              .toArray()
+              .map((a) => {
+                const href = $(a).attr("href") ?? "";
+                return href.startsWith("#") || href.includes("glossary")
+                  ? href.split("#")[1] ?? ""
+                  : "";
+              })
+              .filter((id) => id.length > 0);
+
+            // "Distributed hash table (DHT)" is also known as "DHT"
+            const alias = heading.match(/\(([^)]+)\)\s*$/)?.[1];
+            const term = alias
+              ? heading.replace(/\s*\([^)]+\)\s*$/, "")
+              : heading;
+            const anchor = $term.attr("id") ?? headingAnchor(heading);
+            return [
+              {
+                term,
+                anchor,
+                url: `${pageUrl.split("#")[0]}#${anchor}`,
+                aliases: alias ? [alias] : [],
+                definition: markdown,
+                references,
+              },
+            ];
+          });
+
+        const termsByAnchor = new Map(
+          entries.map((entry) => [entry.anchor, entry.term])
+        );
+        return entries.map(({ references, ...entry }) => ({
+          ...entry,
+          seeAlso: Array.dedupe(
+            references.flatMap((id) => {
+              const term = termsByAnchor.get(id);
+              return term && term !== entry.term ? [term] : [];
+            })
+          ),
+        }));
+      },
+      catch: (error) =>
+        new ParseError({ message: `Failed to parse glossary: ${error}` }),
+    }),
+
+  parseSitemap: (xml: string): Effect.Effect<string[], ParseError> =>
+    Effect.try({
+      try: () => {
+        const $ = cheerio.load(xml, { xml: true });
+        // Sitemap indexes list further sitemaps instead of pages
+        return $("url > loc, sitemap > loc")
+          .toArray()
+          .map((el) => $(el).text().trim())
+          .filter((loc) => loc.length > 0);
+      },
+      catch: (error) =>
+        new ParseError({ message: `Failed to parse sitemap: ${error}` }),
+    }),
+
+  parsePageLinks: (
+    html: string,
+    pageUrl: string
+  ): Effect.Effect<
+    { readonly title: string; readonly links: string[] },
+    ParseError
+  > =>
+    Effect.try({
+      try: () => {
+        const $ = cheerio.load(html);
+        const title = ($("h1").first().text() || $("title").first().text())
+          .replace(/\s+/g, " ")
+          .trim();
+        const links = $("a[href]")
+          .toArray()
+          .flatMap((el) =>
+            Option.toArray(crawlableUrl($(el).attr("href") ?? "", pageUrl))
+          );
+        return { title, links: Array.dedupe(links) };
+      },
+      catch: (error) =>
+        new ParseError({
+          message: `Failed to parse links on ${pageUrl}: ${error}`,
+        }),
+    }),
+});
+
+// ==== Search Index Service ====
+interface SearchIndex {
+  // Adds or replaces a page. Unchanged pages are skipped by content hash
+  readonly indexPage: (url: string, html: string) => Effect.Effect<void>;
+  readonly removePage: (url: string) => Effect.Effect<void>;
+  readonly search: (
+    query: string,
+    options: { readonly urlPrefix: string; readonly limit: number }
+  ) => Effect.Effect<SearchResult[]>;
 }
 
-const HolochainDocServiceTag = Context.GenericTag<HolochainDocService>(
-  "HolochainDocService"
-);
+const SearchIndexTag = Context.GenericTag<SearchIndex>("SearchIndex");
+
+// BM25 parameters: term frequency saturation and document length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Title terms count as several occurrences so page titles dominate ranking
+const TITLE_WEIGHT = 3;
+const INDEX_FLUSH_DELAY = "2 seconds";
+
+const stopWords = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "how",
+  "in", "is", "it", "of", "on", "or", "that", "the", "this", "to", "was",
+  "what", "when", "where", "which", "with",
+]);
+
+// Snake_case identifiers are indexed whole and by their parts, so both
+// "create_entry" and "create entry" find fn.create_entry.html
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[a-z0-9_]+/g) ?? []).flatMap((word) => {
+    const parts = word.includes("_") ? word.split("_") : [];
+    return [word, ...parts].filter(
+      (token) => token.length > 1 && !stopWords.has(token)
+    );
+  });
 
-const HolochainDocServiceLive = Layer.effect(
-  HolochainDocServiceTag,
+const termFrequencies = (title: string, text: string) => {
+  const terms: Record<string, number> = {};
+  tokenize(title).forEach(
+    (token) => (terms[token] = (terms[token] ?? 0) + TITLE_WEIGHT)
+  );
+  tokenize(text).forEach((token) => (terms[token] = (terms[token] ?? 0) + 1));
+  return terms;
+};
+
+const makeSnippet = (text: string, queryTerms: string[]) => {
+  const lowerText = text.toLowerCase();
+  const position = queryTerms
+    .map((term) => lowerText.indexOf(term))
+    .filter((index) => index >= 0)
+    .reduce((first, index) => Math.min(first, index), Infinity);
+  const start = Number.isFinite(position) ? Math.max(0, position - 100) : 0;
+  return text
+    .substring(start, start + 300)
+    .replace(/\s+/g, " ")
+    .trim();
+};
+
+// Scales a source's scores so its best result scores 1. BM25 scores depend on
+// the query and the size of the index, so results from different sources are
+// only comparable once scaled
+const normalizeScores = (results: SearchResult[]): SearchResult[] => {
+  const top = results.reduce((best, result) => Math.max(best, result.score), 0);
+  return top > 0
+    ? results.map((result) => ({ ...result, score: result.score / top }))
+    : results;
+};
+
+// Exact, path and prefix matches against item names from search-index.js,
+// scored on the same 0 to 1 scale as normalized full-text results
+const rankRustItems = (
+  items: ReadonlyArray<RustItem>,
+  query: string,
+  crate: string
+): SearchResult[] => {
+  const needle = query.trim().toLowerCase().replace(/\s+/g, "_");
+  if (!needle) return [];
+
+  const scoreItem = (item: RustItem) => {
+    const name = item.name.toLowerCase();
+    const fullPath = `${item.modulePath}::${item.name}`.toLowerCase();
+    if (name === needle) return 1;
+    if (fullPath.endsWith(`::${needle}`) || fullPath === needle) return 0.9;
+    if (name.startsWith(needle)) return 0.5;
+    if (name.includes(needle)) return 0.25;
+    return 0;
+  };
+
+  return items
+    .map((item) => ({ item, score: scoreItem(item) }))
+    .filter(({ score }) => score > 0)
+    .sort(
+      (a, b) =>
+        b.score - a.score || a.item.name.length - b.item.name.length
+    )
+    .map(({ item, score }) => ({
+      title: `${item.kind} ${item.modulePath}::${item.name}`,
+      url: item.url,
+      snippet:
+        item.description ?? `${item.kind} ${item.name} in ${item.modulePath}`,
+      source: `docs.rs/${crate}`,
+      score,
+    }));
+};
+
+// Inverted index over fetched pages, persisted next to the page cache as
+// search-index.json. Writes are batched and flushed when the layer closes.
+// It holds no more pages than the cache does: the least recently indexed
+// pages are dropped first, and pages leave it when the cache evicts them.
+const SearchIndexLive = Layer.scoped(
+  SearchIndexTag,
   Effect.gen(function* () {
     const config = yield* HolochainConfigService;
-    const httpService = yield* HttpServiceTag;
     const parser = yield* DocumentationParserTag;
+    const fs = yield* FileSystem.FileSystem;
+    const path = yield* Path.Path;
+    const scope = yield* Effect.scope;
+
+    const indexFile = path.join(config.cache.directory, "search-index.json");
+    const documents = new Map<string, IndexedDocument>();
+    // term -> url -> weighted term frequency
+    const postings = new Map<string, Map<string, number>>();
+    let totalLength = 0;
+
+    const addPostings = (document: IndexedDocument) => {
+      documents.set(document.url, document);
+      totalLength += document.length;
+      Object.entries(document.terms).forEach(([term, frequency]) => {
+        const urls = postings.get(term) ?? new Map<string, number>();
+        urls.set(document.url, frequency);
+        postings.set(term, urls);
+      });
+    };
 
-    const commonDeveloperPages = [
-      "/get-started",
-      "/concepts/1_the_basics",
-      "/concepts/2_application_architecture",
-      "/concepts/3_source_chain",
-      "/concepts/4_dht",
-      "/concepts/5_links_anchors",
-      "/concepts/6_zome_functions",
-      "/concepts/7_validation",
-      "/build",
-      "/resources",
-    ];
+    const removePostings = (url: string) => {
+      const document = documents.get(url);
+      if (!document) return;
+      documents.delete(url);
+      totalLength -= document.length;
+      Object.keys(document.terms).forEach((term) => {
+        const urls = postings.get(term);
+        urls?.delete(url);
+        if (urls?.size === 0) postings.delete(term);
+      });
+    };
 
-    const commonHDKPaths = [
-      "/entry/index.html",
-      "/link/index.html",
-      "/agent/index.html",
-      "/chain/index.html",
-      "/capability/index.html",
-      "/ed25519/index.html",
-      "/hash/index.html",
-      "/info/index.html",
-      "/p2p/index.html",
-      "/random/index.html",
-      "/time/index.html",
-      "/x_salsa20_poly1305/index.html",
-    ];
+    // Map insertion order is indexing order, since pages are re-added
+    // whenever they are indexed again
+    const trimToCacheSize = () => {
+      for (const url of documents.keys()) {
+        if (documents.size <= config.cache.maxEntries) break;
+        removePostings(url);
+      }
+    };
 
-    const commonHDIPaths = [
-      "/entry/index.html",
-      "/link/index.html",
-      "/hash/index.html",
-      "/holo_hash/index.html",
-      "/map/index.html",
-      "/prelude/index.html",
-    ];
+    const storedIndex = yield* pipe(
+      fs.readFileString(indexFile),
+      Effect.flatMap(
+        Schema.decodeUnknown(Schema.parseJson(SearchIndexFileSchema))
+      ),
+      Effect.option
+    );
+    if (Option.isSome(storedIndex)) {
+      storedIndex.value.documents.forEach(addPostings);
+      trimToCacheSize();
+      console.error(`Loaded search index with ${documents.size} pages`);
+    }
 
-    const searchDeveloperDocs = (
-      query: string
-    ): Effect.Effect<SearchResult[], FetchError | ParseError> =>
+    const writeLock = yield* Effect.makeSemaphore(1);
+    let dirty = false;
+
+    const persist = writeLock.withPermits(1)(
       pipe(
-        commonDeveloperPages,
-        Array.map((page) => `${config.baseUrls.developer}${page}`),
-        Array.map((url) =>
-          pipe(
-            httpService.fetchPage(url),
-            Effect.flatMap((html) =>
-              parser.parseSearchResults(
-                html,
-                url,
-                query.toLowerCase().split(" ")
-              )
-            ),
-            Effect.map(Option.toArray),
-            Effect.catchAll(() => Effect.succeed([]))
-          )
+        Effect.sync(() => {
+          dirty = false;
+          return JSON.stringify({
+            version: 1,
+            documents: [...documents.values()],
+          });
+        }),
+        Effect.flatMap((json) =>
+          fs.writeFileString(`${indexFile}.tmp`, json)
         ),
-        Effect.all,
-        Effect.map(Array.flatten),
-        Effect.map((results) =>
-          pipe(
-            results,
-            Array.sortBy(
-              Order.mapInput(
-                Order.number,
-                (r: SearchResult) => -r.snippet.length
-              )
-            ),
-            Array.take(5)
-          )
+        Effect.zipRight(fs.rename(`${indexFile}.tmp`, indexFile)),
+        Effect.catchAll((error) =>
+          Console.error(`Failed to persist search index: ${error}`)
         )
+      )
+    );
+
+    const scheduleFlush = Effect.suspend(() => {
+      if (dirty) return Effect.void;
+      dirty = true;
+      return pipe(
+        Effect.sleep(INDEX_FLUSH_DELAY),
+        Effect.zipRight(persist),
+        Effect.forkIn(scope),
+        Effect.asVoid
       );
+    });
 
-    const searchRustDocs = (
-      query: string,
-      docType: "hdk" | "hdi"
-    ): Effect.Effect<SearchResult[], FetchError | ParseError> => {
-      const paths = docType === "hdk" ? commonHDKPaths : commonHDIPaths;
-      const baseUrl = config.baseUrls[docType];
+    yield* Effect.addFinalizer(() =>
+      Effect.suspend(() => (dirty ? persist : Effect.void))
+    );
+
+    const indexPage = (url: string, html: string): Effect.Effect<void> => {
+      const contentHash = hashString(html);
+      if (documents.get(url)?.contentHash === contentHash) {
+        return Effect.void;
+      }
 
       return pipe(
-        paths,
-        Array.map((path) => `${baseUrl}${path}`),
-        Array.map((url) =>
-          pipe(
-            httpService.fetchPage(url),
-            Effect.flatMap((html) =>
-              parser.parseSearchResults(
-                html,
-                url,
-                query.toLowerCase().split(" ")
-              )
-            ),
-            Effect.map(Option.toArray),
-            Effect.catchAll(() => Effect.succeed([]))
-          )
+        parser.parseDocumentationPage(html, url),
+        Effect.flatMap((page) =>
+          Effect.sync(() => {
+            const terms = termFrequencies(page.title, page.content);
+            removePostings(url);
+            addPostings({
+              url,
+              title: page.title,
+              source: page.source,
+              contentHash,
+              text: page.content,
+              length: Object.values(terms).reduce((sum, n) => sum + n, 0),
+              terms,
+            });
+            trimToCacheSize();
+          })
         ),
-        Effect.all,
-        Effect.map(Array.flatten),
-        Effect.map((results) =>
-          pipe(
-            results,
-            Array.sortBy(
-              Order.mapInput(
-                Order.number,
-                (r: SearchResult) => -r.snippet.length
-              )
-            ),
-            Array.take(5)
-          )
+        Effect.zipRight(scheduleFlush),
+        Effect.catchAll((error) =>
+          Console.error(`Failed to index ${url}: ${error.message}`)
         )
       );
     };
 
-    const fetchDocumentationPage = (
-      url: string
-    ): Effect.Effect<
-      DocumentationResult,
-      FetchError | ParseError | NotFoundError
-    > =>
-      pipe(
-        httpService.fetchPage(url),
-        Effect.flatMap((html) => parser.parseDocumentationPage(html, url)),
-        Effect.mapError((error) =>
-          error._tag === "FetchError"
-            ? new NotFoundError({
-                message: `Documentation page not found: ${url}`,
-              })
-            : error
-        )
+    const removePage = (url: string): Effect.Effect<void> =>
+      Effect.suspend(() => {
+        if (!documents.has(url)) return Effect.void;
+        removePostings(url);
+        return scheduleFlush;
+      });
+
+    const search = (
+      query: string,
+      options: { readonly urlPrefix: string; readonly limit: number }
+    ): Effect.Effect<SearchResult[]> =>
+      Effect.sync(() => {
+        const queryTerms = [...new Set(tokenize(query))];
+        const averageLength = totalLength / Math.max(documents.size, 1);
+        const scores = new Map<string, number>();
+
+        queryTerms.forEach((term) => {
+          const urls = postings.get(term);
+          if (!urls) return;
+          const idf = Math.log(
+            1 + (documents.size - urls.size + 0.5) / (urls.size + 0.5)
+          );
+          urls.forEach((frequency, url) => {
+            const document = documents.get(url);
+            if (!document || !url.startsWith(options.urlPrefix)) return;
+            const normalization =
+              1 - BM25_B + (BM25_B * document.length) / averageLength;
+            scores.set(
+              url,
+              (scores.get(url) ?? 0) +
+                (idf * frequency * (BM25_K1 + 1)) /
+                  (frequency + BM25_K1 * normalization)
+            );
+          });
+        });
+
+        return [...scores.entries()]
+          .sort(([, a], [, b]) => b - a)
+          .slice(0, options.limit)
+          .flatMap(([url, score]) => {
+            const document = documents.get(url);
+            return document
+              ? [
+                  {
+                    title: document.title,
+                    url,
+                    snippet: makeSnippet(document.text, queryTerms),
+                    source: document.source,
+                    score,
+                  },
+                ]
+              : [];
+          });
+      });
+
+    return { indexPage, removePage, search };
+  })
+).pipe(
+  Layer.provide(DocumentationParserLive),
+  Layer.provide(NodeFileSystem.layer),
+  Layer.provide(NodePath.layer)
+);
+
+// ==== Site Crawler Service ====
+interface SiteCrawler {
+  // Pages of the developer site, crawling first when the registry is stale
+  readonly knownPages: () => Effect.Effect<KnownPage[]>;
+  // Re-reads the site regardless of when it was last crawled
+  readonly crawl: () => Effect.Effect<KnownPage[]>;
+}
+
+const SiteCrawlerTag = Context.GenericTag<SiteCrawler>("SiteCrawler");
+
+// Link following only applies to sites without a sitemap
+const CRAWL_MAX_DEPTH = 2;
+const CRAWL_CONCURRENCY = 4;
+const CRAWL_MAX_PAGES = 300;
+const CRAWL_TTL = 24 * 60 * 60 * 1000;
+// A failed crawl is retried sooner than a successful one is refreshed
+const CRAWL_RETRY_DELAY = 5 * 60 * 1000;
+// Pages missing from this many days of crawls have been removed from the site
+const PAGE_EXPIRY = 7 * 24 * 60 * 60 * 1000;
+
+// "/build/working-with-data" -> "Working With Data"
+const titleFromPath = (pathname: string) =>
+  guidePageSlug(pathname).replace(/\b\w/g, (c) => c.toUpperCase()) || "Home";
+
+// Registry of developer site pages, discovered from sitemap.xml or by
+// following links from the home page, and persisted next to the page cache
+// as site-pages.json. The known pages list stands in until a crawl succeeds.
+const SiteCrawlerLive = Layer.effect(
+  SiteCrawlerTag,
+  Effect.gen(function* () {
+    const config = yield* HolochainConfigService;
+    const httpService = yield* HttpServiceTag;
+    const parser = yield* DocumentationParserTag;
+    const fs = yield* FileSystem.FileSystem;
+    const path = yield* Path.Path;
+
+    const root = config.baseUrls.developer;
+    const registryFile = path.join(config.cache.directory, "site-pages.json");
+    const registry = new Map<string, KnownPage>();
+    let crawledAt = 0;
+    let nextCrawl = 0;
+
+    const storedRegistry = yield* pipe(
+      fs.readFileString(registryFile),
+      Effect.flatMap(
+        Schema.decodeUnknown(Schema.parseJson(SiteRegistryFileSchema))
+      ),
+      Effect.option
+    );
+    if (Option.isSome(storedRegistry)) {
+      storedRegistry.value.pages.forEach((page) =>
+        registry.set(page.url, page)
       );
+      crawledAt = storedRegistry.value.crawledAt;
+      nextCrawl = crawledAt + CRAWL_TTL;
+      console.error(`Loaded site registry with ${registry.size} pages`);
+    }
 
-    // Dynamic HDK function discovery with caching
-    const hdkFunctionCache = new Map<
-      string,
-      { functions: HdkFunction[]; timestamp: number }
-    >();
-    const FUNCTION_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+    const makePage = (url: string, title: string, lastSeen: number) => {
+      const { pathname } = new URL(url);
+      return {
+        url,
+        path: pathname,
+        title: title || registry.get(url)?.title || titleFromPath(pathname),
+        lastSeen,
+      };
+    };
 
-    const discoverHDKFunctions = (): Effect.Effect<
-      HdkFunction[],
-      FetchError | ParseError
-    > => {
-      // Check cache first
-      const cached = hdkFunctionCache.get("hdk_functions");
-      if (cached && Date.now() - cached.timestamp < FUNCTION_CACHE_TTL) {
-        console.error(
-          `HDK function cache hit: ${cached.functions.length} functions`
-        );
-        return Effect.succeed(cached.functions);
-      }
+    const currentPages = (): KnownPage[] => {
+      const pages = [...registry.values()].filter(
+        (page) => page.lastSeen >= crawledAt - PAGE_EXPIRY
+      );
+      return pages.length > 0
+        ? pages
+        : commonDeveloperPages.map((page) => makePage(`${root}${page}`, "", 0));
+    };
+
+    // Page URLs from the sitemap, following a sitemap index one level down
+    const crawlSitemap = (
+      now: number
+    ): Effect.Effect<KnownPage[], PageFetchError | ParseError | NotFoundError> => {
+      const readSitemap = (url: string) =>
+        Effect.flatMap(httpService.fetchPage(url), parser.parseSitemap);
 
       return pipe(
-        httpService.fetchPage(`${config.baseUrls.hdk}/index.html`),
-        Effect.flatMap((html) =>
-          parser.parseHdkIndex(html, config.baseUrls.hdk)
+        readSitemap(`${root}/sitemap.xml`),
+        Effect.flatMap((locations) =>
+          Effect.forEach(
+            locations,
+            (location) =>
+              location.endsWith(".xml")
+                ? Effect.orElseSucceed(readSitemap(location), () => [])
+                : Effect.succeed([location]),
+            { concurrency: CRAWL_CONCURRENCY }
+          )
         ),
-        Effect.tap((functions) => {
-          // Cache the discovered functions
-          hdkFunctionCache.set("hdk_functions", {
-            functions,
-            timestamp: Date.now(),
-          });
-          console.error(
-            `Discovered and cached ${functions.length} HDK functions`
-          );
-          return Effect.succeed(undefined);
-        }),
-        Effect.catchAll((error) => {
-          console.error(
-            "Failed to discover HDK functions, using fallback discovery"
-          );
-          return discoverHDKFunctionsFallback();
-        })
+        Effect.map((locations) =>
+          Array.dedupe(
+            locations.flat().flatMap((location) =>
+              Option.toArray(crawlableUrl(location, root))
+            )
+          )
+            .slice(0, CRAWL_MAX_PAGES)
+            .map((url) => makePage(url, "", now))
+        )
       );
     };
 
-    const discoverHDKFunctionsFallback = (): Effect.Effect<
-      HdkFunction[],
-      FetchError | ParseError
-    > => {
-      // Fallback: crawl known module pages to discover functions
-      const knownModules = [
-        "entry",
-        "link",
-        "agent",
-        "chain",
-        "p2p",
-        "capability",
-        "ed25519",
-        "hash",
-        "info",
-        "time",
-        "random",
-        "x_salsa20_poly1305",
-      ];
+    // Breadth-first from the home page, one level of links at a time
+    const crawlLinks = (now: number): Effect.Effect<KnownPage[]> =>
+      Effect.gen(function* () {
+        const seen = new Map<string, KnownPage>();
+        const queued = new Set([root]);
+        let frontier = [root];
+
+        for (let depth = 0; frontier.length > 0; depth++) {
+          const results = yield* Effect.forEach(
+            frontier,
+            (url) =>
+              pipe(
+                httpService.fetchPage(url),
+                Effect.flatMap((html) => parser.parsePageLinks(html, url)),
+                Effect.map((result) => ({ url, ...result })),
+                Effect.option
+              ),
+            { concurrency: CRAWL_CONCURRENCY }
+          );
 
-      return pipe(
-        knownModules,
-        Array.map((module) =>
-          pipe(
-            httpService.fetchPage(
-              `${config.baseUrls.hdk}/${module}/index.html`
-            ),
-            Effect.flatMap((html) =>
-              Effect.try({
-                try: () => {
-                  const $ = cheerio.load(html);
-                  const functions: HdkFunction[] = [];
+          frontier = [];
+          Array.getSomes(results).forEach(({ url, title, links }) => {
+            seen.set(url, makePage(url, title, now));
+            if (depth === CRAWL_MAX_DEPTH) return;
+            links.forEach((link) => {
+              if (queued.has(link) || queued.size >= CRAWL_MAX_PAGES) return;
+              queued.add(link);
+              frontier.push(link);
+            });
+          });
+        }
 
-                  // Look for function links in the module page
-                  $("a[href*='fn.']").each((_, el) => {
-                    const href = $(el).attr("href");
-                    const text = $(el).text().trim();
+        return [...seen.values()];
+      });
+
+    const persist = pipe(
+      Effect.sync(() =>
+        JSON.stringify({ version: 1, crawledAt, pages: [...registry.values()] })
+      ),
+      Effect.flatMap((json) => fs.writeFileString(`${registryFile}.tmp`, json)),
+      Effect.zipRight(fs.rename(`${registryFile}.tmp`, registryFile)),
+      Effect.catchAll((error) =>
+        Console.error(`Failed to persist site registry: ${error}`)
+      )
+    );
 
-                    if (href && text && href.includes("fn.")) {
-                      const match = href.match(/fn\.([^.]+)\.html/);
-                      if (match && match[1]) {
-                        const functionName = match[1];
-                        let functionUrl;
+    const crawlSite = Effect.gen(function* () {
+      const now = Date.now();
+      const pages = yield* crawlSitemap(now).pipe(
+        Effect.filterOrFail(
+          (pages) => pages.length > 0,
+          () => new ParseError({ message: "The sitemap lists no pages" })
+        ),
+        Effect.catchAll((error) => {
+          console.error(`No sitemap, following links: ${error.message}`);
+          return crawlLinks(now);
+        })
+      );
 
-                        if (href.startsWith("http")) {
-                          functionUrl = href;
-                        } else if (href.startsWith("/")) {
-                          functionUrl = `https://docs.rs${href}`;
-                        } else {
-                          functionUrl = `${config.baseUrls.hdk}/${module}/${href}`;
-                        }
+      if (pages.length === 0) {
+        console.error(`Crawling ${root} found no pages`);
+        nextCrawl = now + CRAWL_RETRY_DELAY;
+        return currentPages();
+      }
 
-                        functions.push({
-                          name: functionName,
-                          url: functionUrl,
-                        });
-                      }
-                    }
-                  });
+      pages.forEach((page) => registry.set(page.url, page));
+      crawledAt = now;
+      nextCrawl = now + CRAWL_TTL;
+      yield* persist;
+      console.error(`Crawled ${pages.length} pages of ${root}`);
+      return currentPages();
+    });
 
-                  console.error(
-                    `Discovered ${functions.length} functions in ${module} module`
-                  );
-                  return functions;
-                },
-                catch: (error) =>
-                  new ParseError({
-                    message: `Failed to parse ${module} module: ${error}`,
-                  }),
-              })
-            ),
-            Effect.catchAll(() => Effect.succeed([] as HdkFunction[]))
+    const crawlLock = yield* Effect.makeSemaphore(1);
+
+    const crawl = (): Effect.Effect<KnownPage[]> =>
+      crawlLock.withPermits(1)(crawlSite);
+
+    // Callers arriving during a crawl wait for it rather than starting another
+    const knownPages = (): Effect.Effect<KnownPage[]> =>
+      crawlLock.withPermits(1)(
+        Effect.suspend(() =>
+          Date.now() < nextCrawl
+            ? Effect.succeed(currentPages())
+            : crawlSite
+        )
+      );
+
+    return { knownPages, crawl };
+  })
+).pipe(
+  Layer.provide(DocumentationParserLive),
+  Layer.provide(NodeFileSystem.layer),
+  Layer.provide(NodePath.layer)
+);
+
+// ==== Cargo Workspace Versions ====
+type HolochainCrate = "hdk" | "hdi" | "holochain";
+
+interface WorkspaceVersions {
+  readonly workspace: string;
+  readonly source: "Cargo.lock" | "Cargo.toml";
+  readonly hdk: Option.Option<string>;
+  readonly hdi: Option.Option<string>;
+  readonly holochain: Option.Option<string>;
+}
+
+const holochainCrates: ReadonlyArray<HolochainCrate> = [
+  "hdk",
+  "hdi",
+  "holochain",
+];
+
+const isHolochainCrate = (name: string): name is HolochainCrate =>
+  (holochainCrates as ReadonlyArray<string>).includes(name);
+
+// Numeric comparison of dotted release numbers, ignoring pre-release tags
+const compareReleases = (a: string, b: string): number => {
+  const parts = (version: string) =>
+    version
+      .split(/[-+]/)[0]!
+      .split(".")
+      .map((part) => parseInt(part, 10) || 0);
+  const [left, right] = [parts(a), parts(b)];
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+// Cargo.lock lists every resolved package; when a crate is locked at several
+// versions, the newest one is reported
+const parseCargoLock = (
+  content: string
+): Record<HolochainCrate, Option.Option<string>> => {
+  const found: Partial<Record<HolochainCrate, string>> = {};
+
+  for (const block of content.split(/^\[\[package\]\]\s*$/m)) {
+    const name = block.match(/^name\s*=\s*"([^"]+)"/m)?.[1];
+    const version = block.match(/^version\s*=\s*"([^"]+)"/m)?.[1];
+    if (name && version && isHolochainCrate(name)) {
+      const current = found[name];
+      if (!current || compareReleases(version, current) > 0) {
+        found[name] = version;
+      }
+    }
+  }
+
+  return {
+    hdk: Option.fromNullable(found.hdk),
+    hdi: Option.fromNullable(found.hdi),
+    holochain: Option.fromNullable(found.holochain),
+  };
+};
+
+// Turns a Cargo requirement into something docs.rs resolves: "=0.4.2"
+// becomes "0.4.2", while ranges like ">=0.4, <0.5" are not supported
+const normalizeVersionRequirement = (requirement: string) =>
+  pipe(
+    requirement.trim().replace(/^=\s*/, ""),
+    Option.liftPredicate(Schema.is(CrateVersionSchema))
+  );
+
+// Reads hdk/hdi/holochain requirements from [dependencies],
+// [workspace.dependencies] and friends, in both inline and table form
+const parseCargoManifest = (
+  content: string
+): Record<HolochainCrate, Option.Option<string>> => {
+  const found: Partial<Record<HolochainCrate, string>> = {};
+  let table = "";
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const header = line.match(/^\[([^\]]+)\]$/);
+    if (header?.[1]) {
+      table = header[1].trim();
+      continue;
+    }
+
+    const dependencyTable = table.match(/dependencies\.([\w-]+)$/)?.[1];
+    if (dependencyTable && isHolochainCrate(dependencyTable)) {
+      const version = line.match(/^version\s*=\s*"([^"]+)"/)?.[1];
+      if (version && !found[dependencyTable]) {
+        found[dependencyTable] = version;
+      }
+      continue;
+    }
+
+    if (!table.endsWith("dependencies")) continue;
+
+    const dependency = line.match(/^([\w-]+)\s*=\s*(.+)$/);
+    const [name, value] = [dependency?.[1], dependency?.[2]];
+    if (!name || !value || !isHolochainCrate(name) || found[name]) continue;
+
+    const version =
+      value.match(/^"([^"]+)"/)?.[1] ??
+      value.match(/version\s*=\s*"([^"]+)"/)?.[1];
+    if (version) {
+      found[name] = version;
+    }
+  }
+
+  const requirement = (crate: HolochainCrate) =>
+    pipe(
+      Option.fromNullable(found[crate]),
+      Option.flatMap(normalizeVersionRequirement)
+    );
+
+  return {
+    hdk: requirement("hdk"),
+    hdi: requirement("hdi"),
+    holochain: requirement("holochain"),
+  };
+};
+
+// docs.rs crate pages link each dependency as /<crate>/<requirement>, so an
+// HDK release's page names the HDI it was built against
+const docsRsDependencyVersion = (html: string, crate: HolochainCrate) =>
+  pipe(
+    Option.fromNullable(html.match(new RegExp(`href="/${crate}/([^"/?#]+)"`))?.[1]),
+    Option.flatMap(Option.liftThrowable(decodeURIComponent)),
+    Option.flatMap(normalizeVersionRequirement)
+  );
+
+// Prefers the resolved versions in Cargo.lock and falls back to the
+// requirements declared in the workspace's root Cargo.toml
+const detectWorkspaceVersions = (
+  workspacePath: string
+): Effect.Effect<WorkspaceVersions, NotFoundError, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem;
+    const workspace = /Cargo\.(toml|lock)$/.test(workspacePath)
+      ? dirname(resolve(workspacePath))
+      : resolve(workspacePath);
+
+    const readOptional = (file: string) =>
+      fs.readFileString(join(workspace, file)).pipe(Effect.option);
+
+    const lockFile = yield* readOptional("Cargo.lock");
+    const manifest = yield* readOptional("Cargo.toml");
+
+    const candidates = [
+      ...Option.toArray(
+        Option.map(lockFile, (content) => ({
+          source: "Cargo.lock" as const,
+          versions: parseCargoLock(content),
+        }))
+      ),
+      ...Option.toArray(
+        Option.map(manifest, (content) => ({
+          source: "Cargo.toml" as const,
+          versions: parseCargoManifest(content),
+        }))
+      ),
+    ];
+
+    if (candidates.length === 0) {
+      return yield* Effect.fail(
+        new NotFoundError({
+          message: `No Cargo.lock or Cargo.toml found in ${workspace}`,
+        })
+      );
+    }
+
+    return yield* pipe(
+      candidates,
+      Array.findFirst(
+        ({ versions }) =>
+          Option.isSome(versions.hdk) || Option.isSome(versions.hdi)
+      ),
+      Option.match({
+        onNone: () =>
+          Effect.fail(
+            new NotFoundError({
+              message: `No hdk or hdi dependency found in ${workspace}`,
+            })
+          ),
+        onSome: ({ source, versions }) =>
+          Effect.succeed({ workspace, source, ...versions }),
+      })
+    );
+  });
+
+// ==== Documentation Diffs ====
+interface FunctionDiff {
+  readonly name: string;
+  readonly fromVersion: string;
+  readonly toVersion: string;
+  readonly status: "added" | "removed" | "changed" | "unchanged";
+  readonly before: Option.Option<RustItemPage>;
+  readonly after: Option.Option<RustItemPage>;
+  readonly signatureChanged: boolean;
+  readonly docs: {
+    readonly added: ReadonlyArray<string>;
+    readonly removed: ReadonlyArray<string>;
+  };
+  readonly sections: {
+    readonly added: ReadonlyArray<string>;
+    readonly removed: ReadonlyArray<string>;
+    readonly changed: ReadonlyArray<string>;
+  };
+}
+
+interface ModuleDiff {
+  readonly module: string;
+  readonly fromVersion: string;
+  readonly toVersion: string;
+  readonly added: ReadonlyArray<HdkFunction>;
+  readonly removed: ReadonlyArray<HdkFunction>;
+  readonly unchanged: ReadonlyArray<string>;
+}
+
+interface SignatureChange {
+  readonly name: string;
+  readonly before: string;
+  readonly after: string;
+}
+
+interface Deprecation {
+  readonly name: string;
+  readonly notice: string;
+}
+
+interface ModuleMigration extends ModuleDiff {
+  readonly signatureChanges: ReadonlyArray<SignatureChange>;
+  readonly deprecations: ReadonlyArray<Deprecation>;
+}
+
+interface MigrationReport {
+  readonly fromVersion: string;
+  readonly toVersion: string;
+  readonly modules: ReadonlyArray<ModuleMigration>;
+  // Functions present in both versions whose pages could not be fetched
+  readonly unchecked: ReadonlyArray<string>;
+}
+
+// Module path of a docs.rs item, e.g. "entry" for .../hdk/entry/fn.get.html;
+// items at the crate root belong to ""
+const rustItemModule = (url: string) =>
+  new URL(url).pathname.split("/").filter(Boolean).slice(3, -1).join("::");
+
+const docParagraphs = (page: RustItemPage) =>
+  [page.summary, ...page.sections.map((section) => section.content)]
+    .flatMap((text) => text.split("\n\n"))
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph.length > 0);
+
+// Paragraph-level comparison: reflowed text shows up as one removed and one
+// added paragraph rather than a noisy line diff
+const diffRustItemPages = (
+  name: string,
+  fromVersion: string,
+  toVersion: string,
+  before: Option.Option<RustItemPage>,
+  after: Option.Option<RustItemPage>
+): FunctionDiff => {
+  const emptyDiff = {
+    name,
+    fromVersion,
+    toVersion,
+    before,
+    after,
+    signatureChanged: false,
+    docs: { added: [], removed: [] },
+    sections: { added: [], removed: [], changed: [] },
+  };
+
+  if (Option.isNone(before) || Option.isNone(after)) {
+    return {
+      ...emptyDiff,
+      status: Option.isNone(before) ? "added" : "removed",
+    };
+  }
+
+  const [oldPage, newPage] = [before.value, after.value];
+  const oldParagraphs = docParagraphs(oldPage);
+  const newParagraphs = docParagraphs(newPage);
+  const oldSections = new Map(
+    oldPage.sections.map((section) => [section.heading, section.content])
+  );
+  const newSections = new Map(
+    newPage.sections.map((section) => [section.heading, section.content])
+  );
+
+  const docs = {
+    added: newParagraphs.filter((p) => !oldParagraphs.includes(p)),
+    removed: oldParagraphs.filter((p) => !newParagraphs.includes(p)),
+  };
+  const sections = {
+    added: [...newSections.keys()].filter((h) => !oldSections.has(h)),
+    removed: [...oldSections.keys()].filter((h) => !newSections.has(h)),
+    changed: [...newSections.keys()].filter(
+      (h) => oldSections.has(h) && oldSections.get(h) !== newSections.get(h)
+    ),
+  };
+  const signatureChanged = oldPage.signature !== newPage.signature;
+  const changed =
+    signatureChanged ||
+    docs.added.length > 0 ||
+    docs.removed.length > 0 ||
+    sections.added.length > 0 ||
+    sections.removed.length > 0;
+
+  return {
+    ...emptyDiff,
+    status: changed ? "changed" : "unchanged",
+    signatureChanged,
+    docs,
+    sections,
+  };
+};
+
+const diffFunctionLists = (
+  module: string,
+  fromVersion: string,
+  toVersion: string,
+  before: ReadonlyArray<HdkFunction>,
+  after: ReadonlyArray<HdkFunction>
+): ModuleDiff => {
+  const oldNames = new Set(before.map((f) => f.name));
+  const newNames = new Set(after.map((f) => f.name));
+  return {
+    module,
+    fromVersion,
+    toVersion,
+    added: after.filter((f) => !oldNames.has(f.name)),
+    removed: before.filter((f) => !newNames.has(f.name)),
+    unchanged: after.filter((f) => oldNames.has(f.name)).map((f) => f.name),
+  };
+};
+
+const prefixLines = (prefix: string, text: string) =>
+  text
+    .split("\n")
+    .map((line) => `${prefix} ${line}`)
+    .join("\n");
+
+const formatFunctionDiff = (diff: FunctionDiff) => {
+  const header = `# HDK Function Diff: ${diff.name}\n\n${diff.fromVersion} → ${diff.toVersion}`;
+  const pageUrl = (page: Option.Option<RustItemPage>) =>
+    Option.match(page, { onNone: () => "-", onSome: (p) => p.url });
+
+  switch (diff.status) {
+    case "added":
+      return `${header}\n\n**Added** in ${diff.toVersion}: ${pageUrl(diff.after)}`;
+    case "removed":
+      return `${header}\n\n**Removed** in ${diff.toVersion} (last documented at ${pageUrl(diff.before)})`;
+    case "unchanged":
+      return `${header}\n\nNo changes to the signature, documentation or sections.`;
+  }
+
+  const signature = (page: Option.Option<RustItemPage>) =>
+    Option.match(page, { onNone: () => "", onSome: (p) => p.signature });
+  const list = (items: ReadonlyArray<string>) =>
+    items.length > 0 ? items.map((item) => `- ${item}`).join("\n") : "None";
+
+  const signatureSection = diff.signatureChanged
+    ? `\`\`\`diff\n${prefixLines("-", signature(diff.before))}\n${prefixLines(
+        "+",
+        signature(diff.after)
+      )}\n\`\`\``
+    : "Unchanged";
+  const docsSection =
+    diff.docs.added.length === 0 && diff.docs.removed.length === 0
+      ? "Unchanged"
+      : [
+          ...diff.docs.removed.map((p) => prefixLines(">", `**Removed:** ${p}`)),
+          ...diff.docs.added.map((p) => prefixLines(">", `**Added:** ${p}`)),
+        ].join("\n\n");
+
+  return `${header}
+
+## Signature
+
+${signatureSection}
+
+## Documentation
+
+${docsSection}
+
+## Sections
+
+**Added:**
+${list(diff.sections.added)}
+
+**Removed:**
+${list(diff.sections.removed)}
+
+**Changed:**
+${list(diff.sections.changed)}`;
+};
+
+const formatModuleDiff = (diff: ModuleDiff) => {
+  const list = (functions: ReadonlyArray<HdkFunction>) =>
+    functions.length > 0
+      ? functions.map((f) => `- [${f.name}](${f.url})`).join("\n")
+      : "None";
+
+  return `# HDK Module Diff: ${diff.module || "hdk"}
+
+${diff.fromVersion} → ${diff.toVersion}
+
+## Added Functions (${diff.added.length})
+
+${list(diff.added)}
+
+## Removed Functions (${diff.removed.length})
+
+${list(diff.removed)}
+
+${diff.unchanged.length} function(s) present in both versions.`;
+};
+
+const formatMigrationReport = (report: MigrationReport) => {
+  const changedModules = report.modules.filter(
+    (m) =>
+      m.added.length > 0 ||
+      m.removed.length > 0 ||
+      m.signatureChanges.length > 0 ||
+      m.deprecations.length > 0
+  );
+  const total = (count: (m: ModuleMigration) => number) =>
+    report.modules.reduce((sum, m) => sum + count(m), 0);
+
+  const moduleSections = changedModules.map((m) => {
+    const parts = [`## Module \`${m.module || "hdk"}\``];
+    if (m.removed.length > 0) {
+      parts.push(
+        `### Removed\n\n${m.removed.map((f) => `- \`${f.name}\``).join("\n")}`
+      );
+    }
+    if (m.added.length > 0) {
+      parts.push(
+        `### Added\n\n${m.added
+          .map((f) => `- [\`${f.name}\`](${f.url})`)
+          .join("\n")}`
+      );
+    }
+    if (m.signatureChanges.length > 0) {
+      parts.push(
+        `### Changed Signatures\n\n${m.signatureChanges
+          .map(
+            (c) =>
+              `**${c.name}**\n\`\`\`diff\n${prefixLines("-", c.before)}\n${prefixLines(
+                "+",
+                c.after
+              )}\n\`\`\``
+          )
+          .join("\n\n")}`
+      );
+    }
+    if (m.deprecations.length > 0) {
+      parts.push(
+        `### Newly Deprecated\n\n${m.deprecations
+          .map((d) => `- \`${d.name}\`: ${d.notice}`)
+          .join("\n")}`
+      );
+    }
+    return parts.join("\n\n");
+  });
+
+  const unchecked =
+    report.unchecked.length > 0
+      ? `\n\n## Not Compared\n\nThese pages could not be fetched, so their signatures were not checked: ${report.unchecked.join(", ")}`
+      : "";
+
+  return `# HDK Migration Report
+
+${report.fromVersion} → ${report.toVersion}
+
+- Removed functions: ${total((m) => m.removed.length)}
+- Added functions: ${total((m) => m.added.length)}
+- Changed signatures: ${total((m) => m.signatureChanges.length)}
+- Newly deprecated: ${total((m) => m.deprecations.length)}
+
+${moduleSections.length > 0 ? moduleSections.join("\n\n") : "No API changes found."}${unchecked}`;
+};
+
+// ==== Rust Item Lookup ====
+interface RustItemCandidate {
+  readonly crate: RustCrate;
+  readonly item: RustItem;
+}
+
+interface RustItemDocs extends RustItemCandidate {
+  readonly version: string;
+  readonly page: RustItemPage;
+}
+
+interface FunctionDocs {
+  readonly crate: RustCrate;
+  readonly version: string;
+  // Crate that defines the function; differs from `crate` for HDK
+  // re-exports of HDI functions
+  readonly origin: RustCrate;
+  readonly page: RustItemPage;
+}
+
+// Attribute and derive macros are what people mean by "macro" just as often
+// as macro_rules! macros
+const matchesItemKind = (item: RustItem, kind: RustItemKind) =>
+  kind === "macro"
+    ? ["macro", "attr", "derive"].includes(item.kind)
+    : item.kind === kind;
+
+// Accepts the forms items are written in code: #[hdk_extern], vec!,
+// create_entry() or hdk::prelude::ActionHash
+const normalizeItemQuery = (query: string) =>
+  query
+    .trim()
+    .replace(/^#!?\[(.*)\]$/, "$1")
+    .replace(/\(.*\)$/, "")
+    .replace(/!$/, "")
+    .trim();
+
+// Tries full paths, then exact names, then case-insensitive names and
+// finally a fuzzy match. Within a step, shallower module paths win so
+// prelude re-exports don't shadow the defining module's item
+const findRustItem = (
+  candidates: ReadonlyArray<RustItemCandidate>,
+  query: string
+): Option.Option<RustItemCandidate> => {
+  const needle = normalizeItemQuery(query);
+  const byDepth = [...candidates].sort(
+    (a, b) =>
+      a.item.modulePath.split("::").length -
+      b.item.modulePath.split("::").length
+  );
+  const fullPath = ({ item }: RustItemCandidate) =>
+    `${item.modulePath}::${item.name}`;
+
+  const steps: ReadonlyArray<(candidate: RustItemCandidate) => boolean> = [
+    (c) =>
+      needle.includes("::") &&
+      (fullPath(c) === needle || fullPath(c).endsWith(`::${needle}`)),
+    (c) => c.item.name === needle,
+    (c) => c.item.name.toLowerCase() === needle.toLowerCase(),
+  ];
+  for (const step of steps) {
+    const match = byDepth.find(step);
+    if (match) return Option.some(match);
+  }
+
+  const fuse = new Fuse(byDepth, {
+    keys: ["item.name"],
+    threshold: 0.3,
+  });
+  const [best] = fuse.search(needle.split("::").pop() ?? "");
+  return Option.fromNullable(best?.item);
+};
+
+// Everything below a rendered item's heading: signature, its parts, then the
+// doc text with code blocks left fenced
+const formatRustItemPage = (page: RustItemPage) => {
+  const list = (items: ReadonlyArray<string>) =>
+    items.map((item) => `- \`${item}\``).join("\n");
+
+  return [
+    ...(page.deprecated ? [`> ${page.deprecated}`] : []),
+    ...(page.signature ? [`\`\`\`rust\n${page.signature}\n\`\`\``] : []),
+    ...(page.generics.length > 0
+      ? [`**Generics:**\n${list(page.generics)}`]
+      : []),
+    ...(page.whereBounds.length > 0
+      ? [`**Where:**\n${list(page.whereBounds)}`]
+      : []),
+    ...(page.parameters.length > 0
+      ? [
+          `**Parameters:**\n${page.parameters
+            .map(({ name, type }) => `- \`${name}\`: \`${type}\``)
+            .join("\n")}`,
+        ]
+      : []),
+    ...(page.returnType ? [`**Returns:** \`${page.returnType}\``] : []),
+    ...(page.summary ? [page.summary] : []),
+    ...page.sections.map(
+      (section) => `## ${section.heading}\n\n${section.content}`
+    ),
+  ].join("\n\n");
+};
+
+const formatFunctionDocs = ({ crate, version, origin, page }: FunctionDocs) => {
+  const reexport =
+    origin !== crate
+      ? `\nDefined in: ${origin} (re-exported by ${crate})`
+      : "";
+
+  return [
+    `# ${crate.toUpperCase()} Function: ${page.name}`,
+    `Crate: ${crate} ${version}${reexport}\nPath: \`${page.path}\`\nURL: ${page.url}`,
+    formatRustItemPage(page),
+  ].join("\n\n");
+};
+
+const formatRustItemDocs = ({ crate, version, item, page }: RustItemDocs) =>
+  [
+    `# ${item.kind} ${item.modulePath}::${item.name}`,
+    `Crate: ${crate} ${version}\nURL: ${page.url}`,
+    formatRustItemPage(page),
+  ].join("\n\n");
+
+// ==== Known Documentation Pages ====
+const commonDeveloperPages = [
+  "/get-started",
+  "/concepts/1_the_basics",
+  "/concepts/2_application_architecture",
+  "/concepts/3_source_chain",
+  "/concepts/4_dht",
+  "/concepts/5_links_anchors",
+  "/concepts/6_zome_functions",
+  "/concepts/7_validation",
+  "/build",
+  "/resources",
+  "/resources/glossary",
+];
+
+// Words people use for a concept that its page title doesn't contain. Keys
+// are page paths; pages missing from the site navigation are ignored
+const conceptAliases: Record<string, ReadonlyArray<string>> = {
+  "/concepts/1_the_basics": ["basics"],
+  "/concepts/2_application_architecture": ["architecture"],
+  "/concepts/3_source_chain": ["source chain", "chain"],
+  "/concepts/4_dht": ["dht", "distributed hash table"],
+  "/concepts/5_links_anchors": ["links", "anchors"],
+  "/concepts/6_zome_functions": ["zome", "zome functions"],
+  "/concepts/7_validation": ["validation"],
+};
+
+const withConceptAliases = (page: ConceptPage): ConceptPage => ({
+  ...page,
+  aliases: Array.dedupe([
+    ...page.aliases,
+    ...(conceptAliases[new URL(page.url).pathname] ?? []),
+  ]),
+});
+
+// Exact title or alias matches first, then the same fuzzy matching as the
+// HDK function lookup
+const findConceptPage = (
+  pages: ReadonlyArray<ConceptPage>,
+  concept: string
+): Option.Option<ConceptPage> => {
+  const needle = concept.trim().toLowerCase();
+  const exact = pages.find(
+    (page) =>
+      page.title.toLowerCase() === needle || page.aliases.includes(needle)
+  );
+  if (exact) return Option.some(exact);
+
+  const fuse = new Fuse(pages, {
+    keys: [{ name: "title", weight: 2 }, "aliases"],
+    threshold: 0.3,
+    ignoreLocation: true,
+  });
+  return Option.fromNullable(fuse.search(needle)[0]?.item);
+};
+
+const findGlossaryEntry = (
+  entries: ReadonlyArray<GlossaryEntry>,
+  term: string
+): Option.Option<GlossaryEntry> => {
+  const needle = term.trim().toLowerCase();
+  const exact = entries.find(
+    (entry) =>
+      entry.term.toLowerCase() === needle ||
+      entry.aliases.some((alias) => alias.toLowerCase() === needle)
+  );
+  if (exact) return Option.some(exact);
+
+  const fuse = new Fuse(entries, {
+    keys: [{ name: "term", weight: 2 }, "aliases"],
+    threshold: 0.3,
+    ignoreLocation: true,
+  });
+  return Option.fromNullable(fuse.search(needle)[0]?.item);
+};
+
+const formatGlossaryDefinition = (entry: GlossaryEntry) =>
+  entry.seeAlso.length > 0
+    ? `${entry.definition}\n\n**See also:** ${entry.seeAlso.join(", ")}`
+    : entry.definition;
+
+// Looser matching used only to suggest alternatives for a failed lookup
+const nearestConcepts = (
+  pages: ReadonlyArray<ConceptPage>,
+  concept: string
+): string[] =>
+  new Fuse(pages, {
+    keys: [{ name: "title", weight: 2 }, "aliases"],
+    threshold: 0.6,
+    ignoreLocation: true,
+  })
+    .search(concept.trim().toLowerCase())
+    .slice(0, 5)
+    .map((result) => result.item.title);
+
+const commonHDKPaths = [
+  "/entry/index.html",
+  "/link/index.html",
+  "/agent/index.html",
+  "/chain/index.html",
+  "/capability/index.html",
+  "/ed25519/index.html",
+  "/hash/index.html",
+  "/info/index.html",
+  "/p2p/index.html",
+  "/random/index.html",
+  "/time/index.html",
+  "/x_salsa20_poly1305/index.html",
+];
+
+const commonHDIPaths = [
+  "/entry/index.html",
+  "/link/index.html",
+  "/hash/index.html",
+  "/holo_hash/index.html",
+  "/map/index.html",
+  "/prelude/index.html",
+];
+
+// Known pages fetched on demand by a search, on top of what the background
+// seeding has indexed so far
+const SEARCH_TOP_UP_PAGES = 3;
+
+// Known pages whose title or path shares the most terms with the query
+const pagesMatchingQuery = (
+  pages: ReadonlyArray<KnownPage>,
+  query: string,
+  limit: number
+): KnownPage[] => {
+  const queryTerms = new Set(tokenize(query));
+  return pipe(
+    pages.map((page) => ({
+      page,
+      score: tokenize(`${page.title} ${page.path}`).filter((term) =>
+        queryTerms.has(term)
+      ).length,
+    })),
+    Array.filter(({ score }) => score > 0),
+    Array.sort(
+      Order.reverse(
+        Order.mapInput(Order.number, (match: { score: number }) => match.score)
+      )
+    ),
+    Array.take(limit),
+    Array.map(({ page }) => page)
+  );
+};
+
+// ==== Holochain Documentation Service ====
+interface HolochainDocService {
+  readonly searchDeveloperDocs: (
+    query: string
+  ) => Effect.Effect<SearchResult[], PageFetchError | ParseError>;
+  readonly searchRustDocs: (
+    query: string,
+    docType: RustCrate,
+    version?: string
+  ) => Effect.Effect<SearchResult[], PageFetchError | ParseError>;
+  readonly fetchDocumentationPage: (
+    url: string,
+    version?: string
+  ) => Effect.Effect<
+    DocumentationResult,
+    PageFetchError | ParseError | NotFoundError
+  >;
+  readonly listRustItems: (
+    crate: RustCrate,
+    version?: string
+  ) => Effect.Effect<RustItem[], PageFetchError | ParseError | NotFoundError>;
+  readonly discoverHDKFunctions: (
+    version?: string
+  ) => Effect.Effect<HdkFunction[], PageFetchError | ParseError>;
+  readonly getRustItemDocs: (
+    name: string,
+    options?: {
+      readonly crate?: RustCrate;
+      readonly kind?: RustItemKind;
+      readonly version?: string;
+    }
+  ) => Effect.Effect<
+    RustItemDocs,
+    PageFetchError | ParseError | NotFoundError
+  >;
+  readonly discoverHDIFunctions: (
+    version?: string
+  ) => Effect.Effect<HdkFunction[], PageFetchError | ParseError>;
+  readonly getFunctionDocs: (
+    crate: RustCrate,
+    functionName: string,
+    version?: string
+  ) => Effect.Effect<FunctionDocs, PageFetchError | NotFoundError>;
+  // For a function taken from discoverHDKFunctions or discoverHDIFunctions,
+  // whose page is already known, so no lookup by name is needed
+  readonly getDiscoveredFunctionDocs: (
+    crate: RustCrate,
+    fn: HdkFunction,
+    version?: string
+  ) => Effect.Effect<FunctionDocs, PageFetchError | ParseError | NotFoundError>;
+  readonly getHDKFunctionDocs: (
+    functionName: string,
+    version?: string
+  ) => Effect.Effect<
+    DocumentationResult,
+    PageFetchError | ParseError | NotFoundError
+  >;
+  readonly diffHDKFunction: (
+    functionName: string,
+    fromVersion: string,
+    toVersion: string
+  ) => Effect.Effect<FunctionDiff, PageFetchError | ParseError | NotFoundError>;
+  readonly diffHDKModule: (
+    module: string,
+    fromVersion: string,
+    toVersion: string
+  ) => Effect.Effect<ModuleDiff, PageFetchError | ParseError | NotFoundError>;
+  readonly hdkMigrationReport: (
+    fromVersion: string,
+    toVersion: string
+  ) => Effect.Effect<MigrationReport, PageFetchError | ParseError>;
+  readonly getDocOutline: (
+    url: string,
+    version?: string
+  ) => Effect.Effect<DocumentOutline, PageFetchError | ParseError | NotFoundError>;
+  readonly getConceptIndex: () => Effect.Effect<ConceptPage[]>;
+  readonly getGlossary: () => Effect.Effect<
+    GlossaryEntry[],
+    PageFetchError | ParseError | NotFoundError
+  >;
+  readonly defineTerm: (
+    term: string
+  ) => Effect.Effect<GlossaryEntry, PageFetchError | ParseError | NotFoundError>;
+  readonly getConceptDocs: (
+    concept: string
+  ) => Effect.Effect<
+    DocumentationResult,
+    PageFetchError | ParseError | NotFoundError
+  >;
+  readonly useWorkspaceVersions: (
+    workspacePath: string
+  ) => Effect.Effect<WorkspaceVersions, NotFoundError>;
+}
+
+const HolochainDocServiceTag = Context.GenericTag<HolochainDocService>(
+  "HolochainDocService"
+);
+
+const HolochainDocServiceLive = Layer.scoped(
+  HolochainDocServiceTag,
+  Effect.gen(function* () {
+    const config = yield* HolochainConfigService;
+    const httpService = yield* HttpServiceTag;
+    const searchIndex = yield* SearchIndexTag;
+    const siteCrawler = yield* SiteCrawlerTag;
+    const parser = yield* DocumentationParserTag;
+    const fileSystem = yield* FileSystem.FileSystem;
+    const scope = yield* Effect.scope;
+
+    // Defaults for requests that don't name a version; a hApp workspace
+    // can replace them at runtime
+    let activeVersions = config.defaultVersions;
+
+    // Makes sure the given pages are indexed, every other page becomes
+    // searchable once it has been fetched
+    const seedIndex = (urls: string[]) =>
+      Effect.forEach(urls, (url) => Effect.ignore(httpService.fetchPage(url)), {
+        concurrency: 4,
+        discard: true,
+      });
+
+    // Fetching the whole site registry takes about a minute at the per-host
+    // rate limit, so it happens in the background, once, starting with the
+    // first developer search
+    const seedKnownPages = yield* Effect.once(
+      pipe(
+        siteCrawler.knownPages(),
+        Effect.flatMap((pages) => seedIndex(pages.map((page) => page.url))),
+        Effect.forkIn(scope),
+        Effect.asVoid
+      )
+    );
+
+    const searchDeveloperDocs = (
+      query: string
+    ): Effect.Effect<SearchResult[], PageFetchError | ParseError> =>
+      pipe(
+        seedKnownPages,
+        Effect.zipRight(siteCrawler.knownPages()),
+        Effect.flatMap((pages) =>
+          seedIndex(
+            pagesMatchingQuery(pages, query, SEARCH_TOP_UP_PAGES).map(
+              (page) => page.url
+            )
           )
         ),
-        Effect.all,
-        Effect.map(Array.flatten),
-        Effect.map((functions) => {
-          // Remove duplicates and cache
-          const uniqueFunctionMap = new Map<string, HdkFunction>();
-          functions.forEach(f => uniqueFunctionMap.set(f.name, f));
-          const uniqueFunctions = [...uniqueFunctionMap.values()];
+        Effect.zipRight(
+          searchIndex.search(query, {
+            urlPrefix: config.baseUrls.developer,
+            limit: 5,
+          })
+        ),
+        Effect.map(normalizeScores)
+      );
 
-          hdkFunctionCache.set("hdk_functions", {
-            functions: uniqueFunctions,
-            timestamp: Date.now(),
-          });
+    const searchRustDocs = (
+      query: string,
+      docType: RustCrate,
+      version: string = activeVersions[docType]
+    ): Effect.Effect<SearchResult[], PageFetchError | ParseError> => {
+      const paths = docType === "hdk" ? commonHDKPaths : commonHDIPaths;
+      const baseUrl = rustDocsBaseUrl(config, docType, version);
 
+      const itemMatches = pipe(
+        listRustItems(docType, version),
+        Effect.map((items) => rankRustItems(items, query, docType)),
+        Effect.catchAll((error) => {
           console.error(
-            `Fallback discovery found ${uniqueFunctions.length} unique HDK functions`
+            `No ${docType} ${version} item index for search: ${error.message}`
           );
-          return uniqueFunctions;
+          return Effect.succeed([] as SearchResult[]);
         })
       );
+
+      const fullTextMatches = pipe(
+        seedIndex(paths.map((path) => `${baseUrl}${path}`)),
+        Effect.zipRight(
+          // The base URL is pinned to a version, so other versions' pages
+          // never leak into the results
+          searchIndex.search(query, { urlPrefix: `${baseUrl}/`, limit: 5 })
+        ),
+        Effect.map(normalizeScores)
+      );
+
+      // Item matches come first, so an exact item hit outranks a full-text
+      // hit with the same score
+      return pipe(
+        Effect.all([itemMatches, fullTextMatches], { concurrency: 2 }),
+        Effect.map(([items, pages]) =>
+          pipe(
+            [...items.slice(0, 5), ...pages],
+            Array.dedupeWith((a, b) => a.url === b.url)
+          )
+        )
+      );
     };
 
-    const getHDKFunctionDocs = (
-      functionName: string
+    // Only a 404 or 410 means the page doesn't exist. Other failures keep
+    // their own error, so callers can tell a missing page from a bad
+    // connection
+    const fetchPinnedPage = (url: string) =>
+      Effect.mapError(httpService.fetchPage(url), (error) =>
+        error._tag !== "NotFoundError" && isGoneStatus(error)
+          ? new NotFoundError({
+              message: `Documentation page not found: ${url}`,
+            })
+          : error
+      );
+
+    const fetchDocumentationPage = (
+      requestedUrl: string,
+      version?: string
     ): Effect.Effect<
       DocumentationResult,
-      FetchError | ParseError | NotFoundError
+      PageFetchError | ParseError | NotFoundError
     > => {
+      const url = pinDocsRsVersion(
+        config.baseUrls.docsRs,
+        activeVersions,
+        requestedUrl,
+        version
+      );
       return pipe(
-        discoverHDKFunctions(),
-        Effect.flatMap((hdkFunctions) => {
-          // Use fuzzy search to find the best matching function
-          const fuse = new Fuse(hdkFunctions, {
-            keys: ["name"],
-            includeScore: true,
-            threshold: 0.3, // Allow some fuzzy matching
+        fetchPinnedPage(url),
+        Effect.flatMap((html) => parser.parseDocumentationPage(html, url))
+      );
+    };
+
+    const fetchRustItemPage = (
+      requestedUrl: string,
+      version: string
+    ): Effect.Effect<
+      RustItemPage,
+      PageFetchError | ParseError | NotFoundError
+    > => {
+      const url = pinDocsRsVersion(
+        config.baseUrls.docsRs,
+        activeVersions,
+        requestedUrl,
+        version
+      );
+      return pipe(
+        fetchPinnedPage(url),
+        Effect.flatMap((html) => parser.parseRustItemPage(html, url))
+      );
+    };
+
+    // Dynamic HDK function discovery with caching, keyed by crate version
+    const hdkFunctionCache = new Map<
+      string,
+      { functions: HdkFunction[]; timestamp: number }
+    >();
+    const FUNCTION_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+
+    // Every documented item of a crate version, read from rustdoc's
+    // search-index.js rather than scraped from HTML
+    const rustItemCache = new Map<
+      string,
+      { items: RustItem[]; timestamp: number }
+    >();
+
+    const listRustItems = (
+      crate: RustCrate,
+      version: string = activeVersions[crate]
+    ): Effect.Effect<RustItem[], PageFetchError | ParseError | NotFoundError> => {
+      const cacheKey = `${crate}@${version}`;
+      const cached = rustItemCache.get(cacheKey);
+      if (cached && Date.now() - cached.timestamp < FUNCTION_CACHE_TTL) {
+        return Effect.succeed(cached.items);
+      }
+
+      const crateRootUrl = `${rustDocsBaseUrl(config, crate, version)}/index.html`;
+      return pipe(
+        httpService.fetchPage(crateRootUrl),
+        Effect.flatMap((html) =>
+          parser.parseSearchIndexLocation(html, crateRootUrl)
+        ),
+        Effect.flatMap((searchIndexUrl) =>
+          httpService.fetchPage(searchIndexUrl)
+        ),
+        Effect.flatMap((js) =>
+          parser.parseSearchIndex(
+            js,
+            crate,
+            `${config.baseUrls.docsRs}/${crate}/${version}`
+          )
+        ),
+        Effect.tap((items) =>
+          Effect.sync(() => {
+            rustItemCache.set(cacheKey, { items, timestamp: Date.now() });
+            console.error(
+              `Loaded ${items.length} ${crate} ${version} items from search-index.js`
+            );
+          })
+        )
+      );
+    };
+
+    const functionsFromSearchIndex = (crate: RustCrate, version: string) =>
+      pipe(
+        listRustItems(crate, version),
+        Effect.map((items) =>
+          pipe(
+            items,
+            Array.filter((item) => item.kind === "fn"),
+            Array.map(({ name, url }) => ({ name, url })),
+            Array.dedupeWith((a, b) => a.name === b.name)
+          )
+        ),
+        Effect.filterOrFail(
+          (functions) => functions.length > 0,
+          () =>
+            new ParseError({
+              message: `${crate} ${version} search index lists no functions`,
+            })
+        )
+      );
+
+    const discoverHDKFunctions = (
+      version: string = activeVersions.hdk
+    ): Effect.Effect<HdkFunction[], PageFetchError | ParseError> => {
+      const baseUrl = rustDocsBaseUrl(config, "hdk", version);
+
+      // Check cache first
+      const cached = hdkFunctionCache.get(version);
+      if (cached && Date.now() - cached.timestamp < FUNCTION_CACHE_TTL) {
+        console.error(
+          `HDK ${version} function cache hit: ${cached.functions.length} functions`
+        );
+        return Effect.succeed(cached.functions);
+      }
+
+      const fromSearchIndex = functionsFromSearchIndex("hdk", version);
+
+      // Scraping the crate index remains for docs without a usable
+      // search-index.js, e.g. offline mirrors
+      const fromIndexPage = pipe(
+        httpService.fetchPage(`${baseUrl}/index.html`),
+        Effect.flatMap((html) => parser.parseHdkIndex(html, baseUrl))
+      );
+
+      return pipe(
+        fromSearchIndex,
+        Effect.catchAll((error) => {
+          console.error(
+            `Search index unavailable for HDK ${version}, scraping index page: ${error.message}`
+          );
+          return fromIndexPage;
+        }),
+        Effect.tap((functions) => {
+          // Cache the discovered functions
+          hdkFunctionCache.set(version, {
+            functions,
+            timestamp: Date.now(),
+          });
+          console.error(
+            `Discovered and cached ${functions.length} HDK ${version} functions`
+          );
+          return Effect.succeed(undefined);
+        }),
+        Effect.catchAll((error) => {
+          console.error(
+            "Failed to discover HDK functions, using fallback discovery"
+          );
+          return discoverHDKFunctionsFallback(version);
+        })
+      );
+    };
+
+    // Fallback: crawl known module pages to discover functions
+    const knownHDKModules = [
+      "entry",
+      "link",
+      "agent",
+      "chain",
+      "p2p",
+      "capability",
+      "ed25519",
+      "hash",
+      "info",
+      "time",
+      "random",
+      "x_salsa20_poly1305",
+    ];
+
+    const knownHDIModules = [
+      "entry",
+      "link",
+      "chain",
+      "hash",
+      "info",
+      "op",
+      "flat_op",
+      "ed25519",
+      "x_salsa20_poly1305",
+    ];
+
+    const crawlModuleFunctions = (
+      crate: RustCrate,
+      version: string,
+      modules: ReadonlyArray<string>
+    ): Effect.Effect<HdkFunction[], PageFetchError | ParseError> => {
+      const baseUrl = rustDocsBaseUrl(config, crate, version);
+
+      return pipe(
+        modules,
+        Array.map((module) =>
+          pipe(
+            httpService.fetchPage(`${baseUrl}/${module}/index.html`),
+            Effect.flatMap((html) =>
+              Effect.try({
+                try: () => {
+                  const $ = cheerio.load(html);
+                  const functions: HdkFunction[] = [];
+
+                  // Look for function links in the module page
+                  $("a[href*='fn.']").each((_, el) => {
+                    const href = $(el).attr("href");
+                    const text = $(el).text().trim();
+
+                    if (href && text && href.includes("fn.")) {
+                      const match = href.match(/fn\.([^.]+)\.html/);
+                      if (match && match[1]) {
+                        const functionName = match[1];
+                        let functionUrl;
+
+                        if (href.startsWith("http")) {
+                          functionUrl = href;
+                        } else if (href.startsWith("/")) {
+                          functionUrl = `https://docs.rs${href}`;
+                        } else {
+                          functionUrl = `${baseUrl}/${module}/${href}`;
+                        }
+
+                        functions.push({
+                          name: functionName,
+                          url: functionUrl,
+                        });
+                      }
+                    }
+                  });
+
+                  console.error(
+                    `Discovered ${functions.length} functions in ${module} module`
+                  );
+                  return functions;
+                },
+                catch: (error) =>
+                  new ParseError({
+                    message: `Failed to parse ${module} module: ${error}`,
+                  }),
+              })
+            ),
+            Effect.catchAll(() => Effect.succeed([] as HdkFunction[]))
+          )
+        ),
+        Effect.all,
+        Effect.map(Array.flatten),
+        Effect.map((functions) => {
+          // Remove duplicates
+          const uniqueFunctionMap = new Map<string, HdkFunction>();
+          functions.forEach(f => uniqueFunctionMap.set(f.name, f));
+          const uniqueFunctions = [...uniqueFunctionMap.values()];
+
+          console.error(
+            `Module crawl found ${uniqueFunctions.length} unique ${crate} functions`
+          );
+          return uniqueFunctions;
+        })
+      );
+    };
+
+    const discoverHDKFunctionsFallback = (
+      version: string
+    ): Effect.Effect<HdkFunction[], PageFetchError | ParseError> =>
+      Effect.tap(
+        crawlModuleFunctions("hdk", version, knownHDKModules),
+        (functions) =>
+          Effect.sync(() =>
+            hdkFunctionCache.set(version, {
+              functions,
+              timestamp: Date.now(),
+            })
+          )
+      );
+
+    // HDI discovery keeps its own cache. The HDK index scraper pads its results
+    // with well-known HDK functions, so the HDI falls back to a module crawl
+    const hdiFunctionCache = new Map<
+      string,
+      { functions: HdkFunction[]; timestamp: number }
+    >();
+
+    const discoverHDIFunctions = (
+      version: string = activeVersions.hdi
+    ): Effect.Effect<HdkFunction[], PageFetchError | ParseError> => {
+      const cached = hdiFunctionCache.get(version);
+      if (cached && Date.now() - cached.timestamp < FUNCTION_CACHE_TTL) {
+        return Effect.succeed(cached.functions);
+      }
+
+      return pipe(
+        functionsFromSearchIndex("hdi", version),
+        Effect.catchAll((error) => {
+          console.error(
+            `Search index unavailable for HDI ${version}, crawling module pages: ${error.message}`
+          );
+          return crawlModuleFunctions("hdi", version, knownHDIModules);
+        }),
+        Effect.tap((functions) =>
+          Effect.sync(() => {
+            hdiFunctionCache.set(version, {
+              functions,
+              timestamp: Date.now(),
+            });
+            console.error(
+              `Discovered and cached ${functions.length} HDI ${version} functions`
+            );
+          })
+        )
+      );
+    };
+
+    const discoverFunctions = (crate: RustCrate, version: string) =>
+      crate === "hdk"
+        ? discoverHDKFunctions(version)
+        : discoverHDIFunctions(version);
+
+    // Fuzzy lookup so near-misses like "create_entries" still resolve
+    const findFunction = (
+      crate: RustCrate,
+      functionName: string,
+      version: string
+    ): Effect.Effect<HdkFunction, PageFetchError | ParseError | NotFoundError> =>
+      pipe(
+        discoverFunctions(crate, version),
+        Effect.flatMap((hdkFunctions) => {
+          const fuse = new Fuse(hdkFunctions, {
+            keys: ["name"],
+            includeScore: true,
+            threshold: 0.3, // Allow some fuzzy matching
           });
 
           const searchResults = fuse.search(functionName);
@@ -1080,7 +4655,7 @@ const HolochainDocServiceLive = Layer.effect(
               onNone: () =>
                 Effect.fail(
                   new NotFoundError({
-                    message: `HDK function not found: ${functionName}. Available functions: ${hdkFunctions
+                    message: `${crate.toUpperCase()} function not found: ${functionName}. Available functions: ${hdkFunctions
                       .map((f) => f.name)
                       .slice(0, 20)
                       .join(", ")}${
@@ -1092,162 +4667,1705 @@ const HolochainDocServiceLive = Layer.effect(
                 ),
               onSome: (result) => {
                 console.error(
-                  `Found HDK function '${functionName}' -> '${result.item.name}' at: ${result.item.url} (score: ${result.score})`
+                  `Found ${crate.toUpperCase()} function '${functionName}' -> '${result.item.name}' at: ${result.item.url} (score: ${result.score})`
                 );
-                return fetchDocumentationPage(result.item.url);
+                return Effect.succeed(result.item);
               },
             })
           );
-        }),
-        Effect.catchAll((error) => {
-          console.error(`Failed to lookup HDK function '${functionName}':`, {
-            error: error._tag ? error : String(error),
-            functionName,
-          });
-          return Effect.fail(
+        })
+      );
+
+    const getRustItemDocs = (
+      name: string,
+      options: {
+        readonly crate?: RustCrate;
+        readonly kind?: RustItemKind;
+        readonly version?: string;
+      } = {}
+    ): Effect.Effect<
+      RustItemDocs,
+      PageFetchError | ParseError | NotFoundError
+    > =>
+      Effect.gen(function* () {
+        const crates: RustCrate[] = options.crate
+          ? [options.crate]
+          : ["hdk", "hdi"];
+        // Like search_holochain_docs, a version without a crate pins the HDK
+        const versionOf = (crate: RustCrate) =>
+          options.version !== undefined && crate === (options.crate ?? "hdk")
+            ? options.version
+            : activeVersions[crate];
+
+        const listings = yield* Effect.forEach(
+          crates,
+          (crate) =>
+            pipe(
+              listRustItems(crate, versionOf(crate)),
+              Effect.map((items) => items.map((item) => ({ crate, item }))),
+              Effect.catchAll((error) => {
+                console.error(
+                  `No ${crate} ${versionOf(crate)} item index: ${error.message}`
+                );
+                return Effect.succeed([] as RustItemCandidate[]);
+              })
+            ),
+          { concurrency: 2 }
+        );
+
+        const candidates = listings
+          .flat()
+          .filter(
+            ({ item }) =>
+              options.kind === undefined || matchesItemKind(item, options.kind)
+          );
+        const crateList = crates
+          .map((crate) => `${crate} ${versionOf(crate)}`)
+          .join(" and ");
+
+        if (candidates.length === 0) {
+          return yield* Effect.fail(
             new NotFoundError({
-              message: `Failed to lookup HDK function: ${functionName}. Error: ${
-                error._tag || String(error)
-              }`,
+              message: `No ${options.kind ?? "item"} listing available for ${crateList}`,
             })
           );
-        })
+        }
+
+        const match = findRustItem(candidates, name);
+        if (Option.isNone(match)) {
+          return yield* Effect.fail(
+            new NotFoundError({
+              message: `Rust item not found in ${crateList}: ${name}`,
+            })
+          );
+        }
+
+        const { crate, item } = match.value;
+        const version = versionOf(crate);
+        const page = yield* fetchRustItemPage(item.url, version);
+        return { crate, item, version, page };
+      });
+
+    // The configured versions are a matching pair. Any other HDK release is
+    // matched with the HDI requirement on its docs.rs crate page. A release
+    // whose page is missing or names no HDI falls back to the configured HDI,
+    // and that answer is cached too; a failed fetch is left to the caller
+    const hdiVersionCache = new Map<string, string>();
+
+    const hdiVersionFor = (
+      hdkVersion: string
+    ): Effect.Effect<string, PageFetchError> => {
+      if (hdkVersion === activeVersions.hdk) {
+        return Effect.succeed(activeVersions.hdi);
+      }
+      const cached = hdiVersionCache.get(hdkVersion);
+      if (cached) return Effect.succeed(cached);
+
+      const url = `${config.baseUrls.docsRs}/crate/hdk/${hdkVersion}`;
+      const fallback = (error: NotFoundError | ParseError) => {
+        console.error(
+          `No HDI requirement found for HDK ${hdkVersion}, using HDI ${activeVersions.hdi}: ${error.message}`
+        );
+        return Effect.succeed(activeVersions.hdi);
+      };
+      return pipe(
+        fetchPinnedPage(url),
+        Effect.flatMap((html) =>
+          Option.match(docsRsDependencyVersion(html, "hdi"), {
+            onNone: () =>
+              Effect.fail(
+                new ParseError({ message: `No HDI dependency listed on ${url}` })
+              ),
+            onSome: Effect.succeed,
+          })
+        ),
+        Effect.catchTags({ NotFoundError: fallback, ParseError: fallback }),
+        Effect.tap((hdiVersion) =>
+          Effect.sync(() => hdiVersionCache.set(hdkVersion, hdiVersion))
+        )
       );
     };
 
-    const getConceptDocs = (
-      concept: string
-    ): Effect.Effect<
-      DocumentationResult,
-      FetchError | ParseError | NotFoundError
-    > => {
-      const conceptMappings: Record<string, string> = {
-        "source chain": "/concepts/3_source_chain",
-        dht: "/concepts/4_dht",
-        links: "/concepts/5_links_anchors",
-        anchors: "/concepts/5_links_anchors",
-        zome: "/concepts/6_zome_functions",
-        validation: "/concepts/7_validation",
-        architecture: "/concepts/2_application_architecture",
-        basics: "/concepts/1_the_basics",
+    // HDK re-exports HDI functions, never the other way around, so a name
+    // found in both crates is defined by the HDI. An HDI index that can't be
+    // parsed leaves the function with the crate it was found in
+    const functionOrigin = (
+      crate: RustCrate,
+      functionName: string,
+      version: string
+    ): Effect.Effect<RustCrate, PageFetchError> =>
+      crate === "hdi"
+        ? Effect.succeed(crate)
+        : pipe(
+            hdiVersionFor(version),
+            Effect.flatMap(discoverHDIFunctions),
+            Effect.map(
+              (hdiFunctions): RustCrate =>
+                hdiFunctions.some((f) => f.name === functionName)
+                  ? "hdi"
+                  : crate
+            ),
+            Effect.catchTag("ParseError", () =>
+              Effect.succeed<RustCrate>(crate)
+            )
+          );
+
+    const lookupFailed =
+      (crate: RustCrate, functionName: string) =>
+      (
+        error: PageFetchError | ParseError | NotFoundError
+      ): Effect.Effect<never, PageFetchError | NotFoundError> => {
+        const label = crate.toUpperCase();
+        console.error(`Failed to lookup ${label} function '${functionName}':`, {
+          error,
+          functionName,
+        });
+        // A page that failed to load keeps its error, so the cause isn't
+        // mistaken for a missing function
+        return error._tag === "NotFoundError" || error._tag === "ParseError"
+          ? Effect.fail(
+              new NotFoundError({
+                message: `Failed to lookup ${label} function: ${functionName}. Error: ${error._tag}`,
+              })
+            )
+          : Effect.fail(error);
+      };
+
+    const getDiscoveredFunctionDocs = (
+      crate: RustCrate,
+      fn: HdkFunction,
+      version: string = activeVersions[crate]
+    ): Effect.Effect<
+      FunctionDocs,
+      PageFetchError | ParseError | NotFoundError
+    > =>
+      pipe(
+        Effect.all({
+          page: fetchRustItemPage(fn.url, version),
+          origin: functionOrigin(crate, fn.name, version),
+        }),
+        Effect.map(({ page, origin }) => ({ crate, version, origin, page }))
+      );
+
+    const getFunctionDocs = (
+      crate: RustCrate,
+      functionName: string,
+      version: string = activeVersions[crate]
+    ): Effect.Effect<FunctionDocs, PageFetchError | NotFoundError> =>
+      pipe(
+        findFunction(crate, functionName, version),
+        Effect.flatMap((found) =>
+          getDiscoveredFunctionDocs(crate, found, version)
+        ),
+        Effect.catchAll(lookupFailed(crate, functionName))
+      );
+
+    const getHDKFunctionDocs = (
+      functionName: string,
+      version: string = activeVersions.hdk
+    ): Effect.Effect<
+      DocumentationResult,
+      PageFetchError | ParseError | NotFoundError
+    > =>
+      pipe(
+        findFunction("hdk", functionName, version),
+        Effect.flatMap((found) => fetchDocumentationPage(found.url, version)),
+        Effect.catchAll(lookupFailed("hdk", functionName))
+      );
+
+    const diffHDKFunction = (
+      functionName: string,
+      fromVersion: string,
+      toVersion: string
+    ): Effect.Effect<FunctionDiff, PageFetchError | ParseError | NotFoundError> =>
+      Effect.gen(function* () {
+        const [before, after] = yield* Effect.all(
+          [discoverHDKFunctions(fromVersion), discoverHDKFunctions(toVersion)],
+          { concurrency: 2 }
+        );
+
+        // Fuzzy matching is only used to correct the requested name. Each
+        // version is then looked up exactly, otherwise a function missing from
+        // one version would be compared against a similarly named neighbour
+        const exists = (f: HdkFunction) => f.name === functionName;
+        const name =
+          before.some(exists) || after.some(exists)
+            ? functionName
+            : (yield* findFunction("hdk", functionName, toVersion)).name;
+
+        const pageIn = (functions: HdkFunction[], version: string) =>
+          pipe(
+            Option.fromNullable(functions.find((f) => f.name === name)),
+            Option.match({
+              onNone: () => Effect.succeed(Option.none<RustItemPage>()),
+              onSome: (f) =>
+                Effect.map(fetchRustItemPage(f.url, version), Option.some),
+            })
+          );
+
+        const [oldPage, newPage] = yield* Effect.all(
+          [pageIn(before, fromVersion), pageIn(after, toVersion)],
+          { concurrency: 2 }
+        );
+
+        return diffRustItemPages(name, fromVersion, toVersion, oldPage, newPage);
+      });
+
+    const diffHDKModule = (
+      module: string,
+      fromVersion: string,
+      toVersion: string
+    ): Effect.Effect<ModuleDiff, PageFetchError | ParseError | NotFoundError> =>
+      Effect.gen(function* () {
+        const normalizedModule = module.replace(/^hdk::/, "");
+        const inModule = (f: HdkFunction) =>
+          rustItemModule(f.url) === normalizedModule;
+
+        const [before, after] = yield* Effect.all(
+          [discoverHDKFunctions(fromVersion), discoverHDKFunctions(toVersion)],
+          { concurrency: 2 }
+        );
+        const [oldFunctions, newFunctions] = [
+          before.filter(inModule),
+          after.filter(inModule),
+        ];
+
+        if (oldFunctions.length === 0 && newFunctions.length === 0) {
+          const modules = new Set(
+            [...before, ...after].map((f) => rustItemModule(f.url))
+          );
+          return yield* Effect.fail(
+            new NotFoundError({
+              message: `HDK module not found in ${fromVersion} or ${toVersion}: ${module}. Available modules: ${[
+                ...modules,
+              ]
+                .filter((m) => m.length > 0)
+                .sort()
+                .join(", ")}`,
+            })
+          );
+        }
+
+        return diffFunctionLists(
+          normalizedModule,
+          fromVersion,
+          toVersion,
+          oldFunctions,
+          newFunctions
+        );
+      });
+
+    // Compares every function known in both versions. Pages that fail to
+    // load are reported as unchecked instead of failing the whole report
+    const hdkMigrationReport = (
+      fromVersion: string,
+      toVersion: string
+    ): Effect.Effect<MigrationReport, PageFetchError | ParseError> =>
+      Effect.gen(function* () {
+        const [before, after] = yield* Effect.all(
+          [discoverHDKFunctions(fromVersion), discoverHDKFunctions(toVersion)],
+          { concurrency: 2 }
+        );
+        const moduleNames = [
+          ...new Set([...before, ...after].map((f) => rustItemModule(f.url))),
+        ].sort();
+        const unchecked: string[] = [];
+
+        const modules = yield* Effect.forEach(moduleNames, (module) =>
+          Effect.gen(function* () {
+            const inModule = (f: HdkFunction) =>
+              rustItemModule(f.url) === module;
+            const [oldFunctions, newFunctions] = [
+              before.filter(inModule),
+              after.filter(inModule),
+            ];
+            const diff = diffFunctionLists(
+              module,
+              fromVersion,
+              toVersion,
+              oldFunctions,
+              newFunctions
+            );
+
+            const urlOf = (functions: HdkFunction[], name: string) =>
+              functions.find((f) => f.name === name)?.url ?? "";
+            const pages = yield* Effect.forEach(
+              diff.unchanged,
+              (name) =>
+                pipe(
+                  Effect.all([
+                    fetchRustItemPage(urlOf(oldFunctions, name), fromVersion),
+                    fetchRustItemPage(urlOf(newFunctions, name), toVersion),
+                  ]),
+                  Effect.either,
+                  Effect.map((result) => ({ name, result }))
+                ),
+              { concurrency: 4 }
+            );
+
+            const signatureChanges: SignatureChange[] = [];
+            const deprecations: Deprecation[] = [];
+            for (const { name, result } of pages) {
+              if (Either.isLeft(result)) {
+                unchecked.push([module, name].filter(Boolean).join("::"));
+                continue;
+              }
+              const [oldPage, newPage] = result.right;
+              if (oldPage.signature !== newPage.signature) {
+                signatureChanges.push({
+                  name,
+                  before: oldPage.signature,
+                  after: newPage.signature,
+                });
+              }
+              if (newPage.deprecated && !oldPage.deprecated) {
+                deprecations.push({ name, notice: newPage.deprecated });
+              }
+            }
+
+            return { ...diff, signatureChanges, deprecations };
+          })
+        );
+
+        return { fromVersion, toVersion, modules, unchecked };
+      });
+
+    const getDocOutline = (
+      url: string,
+      version?: string
+    ): Effect.Effect<
+      DocumentOutline,
+      PageFetchError | ParseError | NotFoundError
+    > => Effect.map(fetchDocumentationPage(url, version), documentOutline);
+
+    // Concept index built from the developer site's sidebar, falling back
+    // to the guide pages in the site registry
+    let conceptIndexCache:
+      | { pages: ConceptPage[]; timestamp: number }
+      | undefined;
+
+    const conceptPagesFromRegistry = (): Effect.Effect<ConceptPage[]> =>
+      Effect.map(siteCrawler.knownPages(), (pages) =>
+        pages
+          .filter((page) => isGuidePath(page.path))
+          .map((page) => ({
+            title: page.title,
+            url: page.url,
+            aliases: [guidePageSlug(page.path)],
+          }))
+      );
+
+    const getConceptIndex = (): Effect.Effect<ConceptPage[]> => {
+      if (
+        conceptIndexCache &&
+        Date.now() - conceptIndexCache.timestamp < FUNCTION_CACHE_TTL
+      ) {
+        return Effect.succeed(conceptIndexCache.pages);
+      }
+
+      const navigationUrl = `${config.baseUrls.developer}/concepts/1_the_basics`;
+
+      return pipe(
+        httpService.fetchPage(navigationUrl),
+        Effect.flatMap((html) =>
+          parser.parseSiteNavigation(html, navigationUrl)
+        ),
+        Effect.filterOrFail(
+          (pages) => pages.length > 0,
+          () =>
+            new ParseError({
+              message: "No guide pages found in the site navigation",
+            })
+        ),
+        Effect.map((pages) => pages.map(withConceptAliases)),
+        Effect.tap((pages) =>
+          Effect.sync(() => {
+            conceptIndexCache = { pages, timestamp: Date.now() };
+            console.error(`Indexed ${pages.length} concept and guide pages`);
+          })
+        ),
+        // The registry keeps its own schedule, so its pages aren't cached
+        // here and the next lookup tries the navigation again
+        Effect.catchAll((error) => {
+          console.error(
+            `Concept index using the site registry: ${error.message}`
+          );
+          return Effect.map(conceptPagesFromRegistry(), (pages) =>
+            pages.map(withConceptAliases)
+          );
+        })
+      );
+    };
+
+    let glossaryCache:
+      | { entries: GlossaryEntry[]; timestamp: number }
+      | undefined;
+
+    const getGlossary = (): Effect.Effect<
+      GlossaryEntry[],
+      PageFetchError | ParseError | NotFoundError
+    > => {
+      if (
+        glossaryCache &&
+        Date.now() - glossaryCache.timestamp < FUNCTION_CACHE_TTL
+      ) {
+        return Effect.succeed(glossaryCache.entries);
+      }
+
+      const url = `${config.baseUrls.developer}/resources/glossary`;
+      return pipe(
+        httpService.fetchPage(url),
+        Effect.flatMap((html) => parser.parseGlossary(html, url)),
+        Effect.tap((entries) =>
+          Effect.sync(() => {
+            glossaryCache = { entries, timestamp: Date.now() };
+            console.error(`Parsed ${entries.length} glossary terms`);
+          })
+        )
+      );
+    };
+
+    const defineTerm = (
+      term: string
+    ): Effect.Effect<GlossaryEntry, PageFetchError | ParseError | NotFoundError> =>
+      pipe(
+        getGlossary(),
+        Effect.flatMap((entries) =>
+          Option.match(findGlossaryEntry(entries, term), {
+            onNone: () => {
+              const suggestions = new Fuse(entries, {
+                keys: ["term", "aliases"],
+                threshold: 0.6,
+                ignoreLocation: true,
+              })
+                .search(term)
+                .slice(0, 5)
+                .map((result) => result.item.term);
+              return Effect.fail(
+                new NotFoundError({
+                  message: `Term not found in the glossary: ${term}${
+                    suggestions.length > 0
+                      ? `. Did you mean: ${suggestions.join(", ")}?`
+                      : ""
+                  }`,
+                })
+              );
+            },
+            onSome: Effect.succeed,
+          })
+        )
+      );
+
+    const getConceptDocs = (
+      concept: string
+    ): Effect.Effect<
+      DocumentationResult,
+      PageFetchError | ParseError | NotFoundError
+    > =>
+      pipe(
+        getConceptIndex(),
+        Effect.flatMap((pages) =>
+          Option.match(findConceptPage(pages, concept), {
+            onNone: () => {
+              const suggestions = nearestConcepts(pages, concept);
+              const notFound = new NotFoundError({
+                message: `Concept not found: ${concept}. ${
+                  suggestions.length > 0
+                    ? `Did you mean: ${suggestions.join(", ")}?`
+                    : `Available concepts: ${pages
+                        .map((page) => page.title)
+                        .slice(0, 20)
+                        .join(", ")}`
+                }`,
+              });
+              // Terms without a concept page of their own may still have a
+              // glossary definition
+              return pipe(
+                defineTerm(concept),
+                Effect.map(
+                  (entry): DocumentationResult => ({
+                    title: entry.term,
+                    content: formatGlossaryDefinition(entry),
+                    url: entry.url,
+                    source: "developer.holochain.org",
+                  })
+                ),
+                Effect.orElseFail(() => notFound)
+              );
+            },
+            onSome: (page) => fetchDocumentationPage(page.url),
+          })
+        )
+      );
+
+    const useWorkspaceVersions = (
+      workspacePath: string
+    ): Effect.Effect<WorkspaceVersions, NotFoundError> =>
+      pipe(
+        detectWorkspaceVersions(workspacePath),
+        Effect.provideService(FileSystem.FileSystem, fileSystem),
+        Effect.tap((versions) =>
+          Effect.sync(() => {
+            activeVersions = {
+              hdk: Option.getOrElse(versions.hdk, () => activeVersions.hdk),
+              hdi: Option.getOrElse(versions.hdi, () => activeVersions.hdi),
+            };
+            console.error(
+              `Using HDK ${activeVersions.hdk} / HDI ${activeVersions.hdi} from ${versions.workspace}`
+            );
+          })
+        )
+      );
+
+    return {
+      searchDeveloperDocs,
+      searchRustDocs,
+      fetchDocumentationPage,
+      listRustItems,
+      discoverHDKFunctions,
+      discoverHDIFunctions,
+      getRustItemDocs,
+      getFunctionDocs,
+      getDiscoveredFunctionDocs,
+      getHDKFunctionDocs,
+      diffHDKFunction,
+      diffHDKModule,
+      hdkMigrationReport,
+      getDocOutline,
+      getConceptIndex,
+      getGlossary,
+      defineTerm,
+      getConceptDocs,
+      useWorkspaceVersions,
+    };
+  })
+).pipe(
+  Layer.provide(DocumentationParserLive),
+  Layer.provide(NodeFileSystem.layer)
+);
+
+// ==== Documentation Resources ====
+// MCP resources address docs by what they document rather than by URL:
+// holochain://hdk/{module}/{function}, holochain://hdi/{module}/{function},
+// holochain://guide/{path} for developer site pages and
+// holochain://concept/{concept} for concepts by name
+type DocResource =
+  | {
+      readonly kind: "function";
+      readonly crate: RustCrate;
+      readonly module: string;
+      readonly name: string;
+    }
+  | { readonly kind: "guide"; readonly path: string }
+  | { readonly kind: "concept"; readonly concept: string };
+
+interface DocResourceContent {
+  // Page the resource was read from, which is what the page cache reports
+  // changes for
+  readonly url: string;
+  readonly text: string;
+}
+
+const parseDocResourceUri = (uri: string): Option.Option<DocResource> => {
+  const functionMatch = uri.match(
+    /^holochain:\/\/(hdk|hdi)\/([^/]+)\/([^/]+)$/
+  );
+  if (functionMatch && functionMatch[2] && functionMatch[3]) {
+    return Option.some({
+      kind: "function",
+      crate: functionMatch[1] as RustCrate,
+      module: decodeURIComponent(functionMatch[2]),
+      name: decodeURIComponent(functionMatch[3]),
+    });
+  }
+  const conceptMatch = uri.match(/^holochain:\/\/concept\/([^/]+)$/);
+  if (conceptMatch && conceptMatch[1]) {
+    return Option.some({
+      kind: "concept",
+      concept: decodeURIComponent(conceptMatch[1]),
+    });
+  }
+  const guideMatch = uri.match(/^holochain:\/\/guide\/(.+?)\/?$/);
+  return guideMatch && guideMatch[1]
+    ? Option.some({ kind: "guide", path: guideMatch[1] })
+    : Option.none();
+};
+
+// Functions at the crate root have no module segment to put in the URI
+const functionResourceUri = (crate: RustCrate, fn: HdkFunction) => {
+  const module = rustItemModule(fn.url);
+  return module.length > 0
+    ? Option.some(`holochain://${crate}/${module}/${fn.name}`)
+    : Option.none();
+};
+
+const guideResourceUri = (page: KnownPage) =>
+  page.path === "/"
+    ? Option.none()
+    : Option.some(`holochain://guide${page.path}`);
+
+const discoverCrateFunctions = (crate: RustCrate) =>
+  Effect.flatMap(HolochainDocServiceTag, (docService) =>
+    crate === "hdk"
+      ? docService.discoverHDKFunctions()
+      : docService.discoverHDIFunctions()
+  );
+
+// A name that doesn't resolve fails with the closest names, so a prompt that
+// leaves the function's docs out says what it looked for
+const findFunctionResourceUri = (
+  crate: RustCrate,
+  name: string
+): Effect.Effect<
+  string,
+  PageFetchError | ParseError | NotFoundError,
+  HolochainDocService
+> =>
+  Effect.flatMap(discoverCrateFunctions(crate), (functions) =>
+    pipe(
+      Array.findFirst(functions, (fn) => fn.name === name),
+      Option.flatMap((fn) => functionResourceUri(crate, fn)),
+      Option.match({
+        onNone: () => {
+          const suggestions = pipe(
+            new Fuse(functions, { keys: ["name"], threshold: 0.3 }).search(name),
+            Array.map((result) => result.item.name),
+            Array.dedupe,
+            Array.take(5)
+          );
+          return Effect.fail(
+            new NotFoundError({
+              message: `${crate.toUpperCase()} function not found: ${name}${
+                suggestions.length > 0
+                  ? `. Did you mean: ${suggestions.join(", ")}?`
+                  : ""
+              }`,
+            })
+          );
+        },
+        onSome: Effect.succeed,
+      })
+    )
+  );
+
+const listFunctionResources = (
+  crate: RustCrate
+): Effect.Effect<Resource[], never, HolochainDocService> =>
+  pipe(
+    discoverCrateFunctions(crate),
+    Effect.map(
+      Array.filterMap((fn) =>
+        Option.map(functionResourceUri(crate, fn), (uri) => ({
+          uri,
+          name: `${crate}::${rustItemModule(fn.url)}::${fn.name}`,
+          description: `${crate.toUpperCase()} function documentation`,
+          mimeType: "text/markdown",
+        }))
+      )
+    ),
+    Effect.catchAll((error) => {
+      console.error(`Cannot list ${crate} resources: ${error.message}`);
+      return Effect.succeed([] as Resource[]);
+    })
+  );
+
+const listGuideResources: Effect.Effect<
+  Resource[],
+  never,
+  SiteCrawler
+> = Effect.flatMap(SiteCrawlerTag, (siteCrawler) =>
+  Effect.map(
+    siteCrawler.knownPages(),
+    Array.filterMap((page) =>
+      Option.map(guideResourceUri(page), (uri) => ({
+        uri,
+        name: page.title,
+        description: `Developer guide page ${page.path}`,
+        mimeType: "text/markdown",
+      }))
+    )
+  )
+);
+
+const listConceptResources: Effect.Effect<
+  Resource[],
+  never,
+  HolochainDocService
+> = Effect.flatMap(HolochainDocServiceTag, (docService) =>
+  Effect.map(docService.getConceptIndex(), (pages) =>
+    pages.map((page) => ({
+      uri: `holochain://concept/${encodeURIComponent(page.title)}`,
+      name: page.title,
+      description: `Holochain concept: ${page.title}`,
+      mimeType: "text/markdown",
+    }))
+  )
+);
+
+const readDocResource = (
+  uri: string
+): Effect.Effect<
+  DocResourceContent,
+  PageFetchError | ParseError | NotFoundError,
+  HolochainDocService | HolochainConfig
+> =>
+  Effect.gen(function* () {
+    const docService = yield* HolochainDocServiceTag;
+    const resource = parseDocResourceUri(uri);
+    if (Option.isNone(resource)) {
+      return yield* Effect.fail(
+        new NotFoundError({ message: `Unknown documentation resource: ${uri}` })
+      );
+    }
+
+    if (resource.value.kind !== "function") {
+      const config = yield* HolochainConfigService;
+      const doc =
+        resource.value.kind === "guide"
+          ? yield* docService.fetchDocumentationPage(
+              `${config.baseUrls.developer}/${resource.value.path}`
+            )
+          : yield* docService.getConceptDocs(resource.value.concept);
+      return {
+        url: doc.url,
+        text: formatContentPage({
+          doc,
+          part: 1,
+          parts: 1,
+          nextCursor: Option.none(),
+        }),
+      };
+    }
+
+    // Resources name an exact module and function, so the page found here is
+    // read directly rather than looked up again by name alone
+    const { crate, module, name } = resource.value;
+    const functions = yield* discoverCrateFunctions(crate);
+    const found = functions.find(
+      (fn) => fn.name === name && rustItemModule(fn.url) === module
+    );
+    if (found === undefined) {
+      return yield* Effect.fail(
+        new NotFoundError({
+          message: `${crate.toUpperCase()} function not found: ${module}::${name}`,
+        })
+      );
+    }
+    const docs = yield* docService.getDiscoveredFunctionDocs(crate, found);
+    return { url: docs.page.url, text: formatFunctionDocs(docs) };
+  });
+
+const docPromptMessage = (uri: string) =>
+  Effect.map(
+    readDocResource(uri),
+    ({ text }): PromptMessage => ({
+      role: "user",
+      content: {
+        type: "resource",
+        resource: { uri, mimeType: "text/markdown", text },
+      },
+    })
+  );
+
+const taskPromptMessage = (task: string): PromptMessage => ({
+  role: "user",
+  content: { type: "text", text: task },
+});
+
+// A doc to attach to a prompt: a fixed resource URI, or a lookup such as
+// findFunctionResourceUri that resolves one
+type PromptDoc =
+  | string
+  | Effect.Effect<
+      string,
+      PageFetchError | ParseError | NotFoundError,
+      HolochainDocService
+    >;
+
+// Prompt messages: each doc as an embedded resource, followed by the task.
+// Docs that fail to resolve or load are left out rather than failing the
+// prompt
+const promptMessages = (
+  docs: ReadonlyArray<PromptDoc>,
+  task: string
+): Effect.Effect<
+  PromptMessage[],
+  never,
+  HolochainDocService | HolochainConfig
+> =>
+  pipe(
+    Effect.forEach(
+      docs,
+      (doc) =>
+        pipe(
+          typeof doc === "string" ? Effect.succeed(doc) : doc,
+          Effect.flatMap(docPromptMessage),
+          Effect.tapError((error) =>
+            Console.error(`Leaving a doc out of prompt: ${error.message}`)
+          ),
+          Effect.option
+        ),
+      { concurrency: 4 }
+    ),
+    Effect.map((messages) => [
+      ...Array.getSomes(messages),
+      taskPromptMessage(task),
+    ])
+  );
+
+// ==== Argument Completion ====
+// Ranked with the same Fuse.js settings as the function lookup behind
+// get_hdk_function, so every suggestion is a name the lookup resolves. An
+// empty value lists every candidate
+const rankCompletions = <A>(
+  items: ReadonlyArray<A>,
+  keys: ReadonlyArray<keyof A & string>,
+  value: string,
+  label: (item: A) => string
+): string[] => {
+  const needle = value.trim();
+  const ranked =
+    needle.length === 0
+      ? items
+      : new Fuse(items, { keys: [...keys], threshold: 0.3 })
+          .search(needle)
+          .map((result) => result.item);
+  return Array.dedupe(ranked.map(label));
+};
+
+const completeFunctionNames = (
+  crate: RustCrate,
+  value: string,
+  module?: string
+): Effect.Effect<string[], never, HolochainDocService> =>
+  pipe(
+    discoverCrateFunctions(crate),
+    Effect.map((functions) =>
+      rankCompletions(
+        module
+          ? functions.filter((fn) => rustItemModule(fn.url) === module)
+          : functions,
+        ["name"],
+        value,
+        (fn) => fn.name
+      )
+    ),
+    Effect.orElseSucceed(() => [] as string[])
+  );
+
+const completeModules = (
+  crate: RustCrate,
+  value: string
+): Effect.Effect<string[], never, HolochainDocService> =>
+  pipe(
+    discoverCrateFunctions(crate),
+    Effect.map((functions) =>
+      rankCompletions(
+        pipe(
+          functions.map((fn) => rustItemModule(fn.url)),
+          Array.filter((module) => module.length > 0),
+          Array.dedupe,
+          Array.sort(Order.string),
+          Array.map((name) => ({ name }))
+        ),
+        ["name"],
+        value,
+        (module) => module.name
+      )
+    ),
+    Effect.orElseSucceed(() => [] as string[])
+  );
+
+// Concept aliases count as matches, but the suggestion is the page title
+const completeConcepts = (
+  value: string
+): Effect.Effect<string[], never, HolochainDocService> =>
+  Effect.flatMap(HolochainDocServiceTag, (docService) =>
+    Effect.map(docService.getConceptIndex(), (pages) =>
+      rankCompletions(pages, ["title", "aliases"], value, (page) => page.title)
+    )
+  );
+
+const completeGuidePaths = (
+  value: string
+): Effect.Effect<string[], never, SiteCrawler> =>
+  Effect.flatMap(SiteCrawlerTag, (siteCrawler) =>
+    Effect.map(siteCrawler.knownPages(), (pages) =>
+      rankCompletions(
+        pages.filter((page) => page.path !== "/"),
+        ["path", "title"],
+        value,
+        (page) => page.path.slice(1)
+      )
+    )
+  );
+
+// ==== Command Line ====
+interface CliOptions {
+  readonly command: "serve" | "prefetch";
+  readonly out: Option.Option<string>;
+  readonly offline: Option.Option<string>;
+  readonly hdkVersion: Option.Option<string>;
+  readonly hdiVersion: Option.Option<string>;
+  readonly workspace: Option.Option<string>;
+}
+
+const cliUsage = `Usage:
+  holochain-mcp-server [--offline <mirror-dir>] [version options]
+  holochain-mcp-server prefetch --out <mirror-dir> [version options]
+
+Version options:
+  --hdk-version <version>   Default HDK docs version
+  --hdi-version <version>   Default HDI docs version
+  --workspace <path>        Read HDK/HDI versions from a hApp workspace`;
+
+const parseCliArgs = (
+  args: ReadonlyArray<string>
+): Either.Either<CliOptions, string> => {
+  const command = args[0] === "prefetch" ? "prefetch" : "serve";
+  const flags = command === "prefetch" ? args.slice(1) : args;
+  let out = Option.none<string>();
+  let offline = Option.none<string>();
+  let hdkVersion = Option.none<string>();
+  let hdiVersion = Option.none<string>();
+  let workspace = Option.none<string>();
+
+  for (let i = 0; i < flags.length; i++) {
+    const flag = flags[i];
+    const value = flags[i + 1];
+    switch (flag) {
+      case "--out":
+      case "--offline":
+      case "--workspace":
+        if (value === undefined || value.startsWith("--")) {
+          return Either.left(`Missing path for ${flag}`);
+        }
+        if (flag === "--out") {
+          out = Option.some(value);
+        } else if (flag === "--offline") {
+          offline = Option.some(value);
+        } else {
+          workspace = Option.some(value);
+        }
+        i++;
+        break;
+      case "--hdk-version":
+      case "--hdi-version":
+        if (value === undefined || value.startsWith("--")) {
+          return Either.left(`Missing version for ${flag}`);
+        }
+        if (!Schema.is(CrateVersionSchema)(value)) {
+          return Either.left(`Invalid crate version for ${flag}: ${value}`);
+        }
+        if (flag === "--hdk-version") {
+          hdkVersion = Option.some(value);
+        } else {
+          hdiVersion = Option.some(value);
+        }
+        i++;
+        break;
+      default:
+        return Either.left(`Unknown argument: ${flag}`);
+    }
+  }
+
+  if (command === "prefetch" && Option.isNone(out)) {
+    return Either.left("prefetch requires --out <mirror-dir>");
+  }
+  if (command === "prefetch" && Option.isSome(offline)) {
+    return Either.left("--offline cannot be combined with prefetch");
+  }
+  if (command === "serve" && Option.isSome(out)) {
+    return Either.left("--out is only valid with the prefetch command");
+  }
+
+  return Either.right({
+    command,
+    out,
+    offline,
+    hdkVersion,
+    hdiVersion,
+    workspace,
+  });
+};
+
+// Explicit --hdk-version / --hdi-version flags win over workspace versions
+const configFromCliOptions = (
+  options: CliOptions,
+  workspaceVersions: Option.Option<WorkspaceVersions> = Option.none()
+): HolochainConfig => {
+  const defaultVersion = (crate: RustCrate, flag: Option.Option<string>) =>
+    pipe(
+      flag,
+      Option.orElse(() =>
+        Option.flatMap(workspaceVersions, (versions) => versions[crate])
+      ),
+      Option.getOrElse(() => defaultHolochainConfig.defaultVersions[crate])
+    );
+
+  const baseConfig: HolochainConfig = {
+    ...defaultHolochainConfig,
+    defaultVersions: {
+      hdk: defaultVersion("hdk", options.hdkVersion),
+      hdi: defaultVersion("hdi", options.hdiVersion),
+    },
+  };
+
+  if (options.command === "prefetch" && Option.isSome(options.out)) {
+    // Mirror everything: no eviction, and always refresh existing pages
+    return {
+      ...baseConfig,
+      cache: {
+        directory: resolve(options.out.value),
+        ttl: 0,
+        maxEntries: Infinity,
+        maxBytes: Infinity,
+      },
+    };
+  }
+
+  if (Option.isSome(options.offline)) {
+    const mirror = resolve(options.offline.value);
+    return {
+      ...baseConfig,
+      cache: { ...baseConfig.cache, directory: mirror },
+      offlineMirror: Option.some(mirror),
+    };
+  }
+
+  return baseConfig;
+};
+
+// Create the runtime layer
+const makeMainLive = (config: HolochainConfig) =>
+  HolochainDocServiceLive.pipe(
+    Layer.provideMerge(SiteCrawlerLive),
+    Layer.provideMerge(HttpServiceLive),
+    Layer.provideMerge(Layer.merge(PageCacheLive, SearchIndexLive)),
+    Layer.provideMerge(Layer.succeed(HolochainConfigService, config))
+  );
+
+// ==== Offline Mirror ====
+interface MirrorManifest {
+  readonly createdAt: string;
+  readonly pages: number;
+  readonly missing: ReadonlyArray<string>;
+}
+
+// Crawls every known page into the page cache directory, which then doubles
+// as a self-contained snapshot for --offline mode
+const prefetchDocumentation = Effect.gen(function* () {
+  const config = yield* HolochainConfigService;
+  const httpService = yield* HttpServiceTag;
+  const pageCache = yield* PageCacheTag;
+  const siteCrawler = yield* SiteCrawlerTag;
+  const docService = yield* HolochainDocServiceTag;
+  const fs = yield* FileSystem.FileSystem;
+
+  const hdkBaseUrl = rustDocsBaseUrl(config, "hdk", config.defaultVersions.hdk);
+  const hdiBaseUrl = rustDocsBaseUrl(config, "hdi", config.defaultVersions.hdi);
+
+  const functions = yield* docService.discoverHDKFunctions().pipe(
+    Effect.catchAll((error) => {
+      console.error(`HDK function discovery failed: ${error.message}`);
+      return Effect.succeed([] as HdkFunction[]);
+    })
+  );
+
+  // A fresh crawl, so the mirror matches the site as it is now
+  const sitePages = yield* siteCrawler.crawl();
+
+  const urls = Array.dedupe([
+    ...sitePages.map((page) => page.url),
+    `${hdkBaseUrl}/index.html`,
+    ...commonHDKPaths.map((path) => `${hdkBaseUrl}${path}`),
+    `${hdiBaseUrl}/index.html`,
+    ...commonHDIPaths.map((path) => `${hdiBaseUrl}${path}`),
+    ...functions.map((f) => f.url),
+  ]);
+
+  console.error(`Prefetching ${urls.length} pages...`);
+
+  const missing = yield* Effect.forEach(
+    urls,
+    (url) =>
+      pipe(
+        httpService.fetchPage(url),
+        Effect.catchAll((error) => {
+          console.error(`Failed to prefetch ${url}: ${error.message}`);
+          return Effect.void;
+        }),
+        // Pages rejected by the cache are missing from the mirror too
+        Effect.zipRight(pageCache.get(url)),
+        Effect.map((cached) =>
+          Option.isSome(cached) ? Option.none() : Option.some(url)
+        )
+      ),
+    { concurrency: 4 }
+  ).pipe(Effect.map(Array.getSomes));
+
+  const manifest: MirrorManifest = {
+    createdAt: new Date().toISOString(),
+    pages: urls.length - missing.length,
+    missing,
+  };
+
+  yield* fs.writeFileString(
+    join(config.cache.directory, "manifest.json"),
+    JSON.stringify(manifest, null, 2)
+  );
+
+  console.error(
+    `Mirrored ${manifest.pages} of ${urls.length} pages into ${config.cache.directory}`
+  );
+  return manifest;
+});
+
+// ==== MCP Server Setup ====
+const server = new McpServer({
+  name: "holochain-docs",
+  version: "1.0.0",
+});
+
+let runPromise: <E, A>(
+  effect: Effect.Effect<
+    A,
+    E,
+    HolochainDocService | SiteCrawler | HolochainConfig
+  >
+) => Promise<A>;
+
+// Helper function to safely decode input
+const safeDecodeInput =
+  <A, I>(schema: Schema.Schema<A, I>) =>
+  (input: unknown) =>
+    pipe(
+      Schema.decodeUnknown(schema)(input),
+      Effect.mapError((error) => ({ error: `Invalid input: ${error}` }))
+    );
+
+// Tool error text. Fetch failures say what actually went wrong, so a page
+// that doesn't exist reads differently from a site that is down
+const describeError = (error: unknown): string => {
+  if (error instanceof HttpStatusError) {
+    const host = hostOf(error.url);
+    if (isGoneStatus(error)) {
+      return `Page not found (HTTP ${error.status}): ${error.url}`;
+    }
+    if (error.status === 429) {
+      return `Rate limited by ${host} (HTTP 429). Try again later.`;
+    }
+    if (error.status >= 500) {
+      return `${host} is having trouble (HTTP ${error.status}) serving ${error.url}. Try again later.`;
+    }
+    return `HTTP ${error.status} fetching ${error.url}`;
+  }
+  if (error instanceof TimeoutError) {
+    return `Timed out fetching ${error.url}. The site may be slow or unreachable.`;
+  }
+  if (error instanceof BrowserError) {
+    return `The page could not be rendered in a browser: ${error.message}`;
+  }
+  if (error instanceof FetchError) {
+    return `Network error: ${error.message}`;
+  }
+  if (error instanceof NotFoundError || error instanceof ParseError) {
+    return error.message;
+  }
+  return typeof error === "object" && error !== null
+    ? JSON.stringify(error, null, 2)
+    : String(error);
+};
+
+// Tool: Search Holochain docs
+server.registerTool(
+  "search_holochain_docs",
+  {
+    description:
+      "Search across all Holochain documentation sources including developer guides, HDK, and HDI docs",
+    inputSchema: {
+      query: z.string().describe("Search query for Holochain documentation"),
+      source: z
+        .enum(["all", "developer", "hdk", "hdi"])
+        .optional()
+        .describe("Specific documentation source to search (default: all)"),
+      version: z
+        .string()
+        .optional()
+        .describe(
+          "Crate version for HDK/HDI results (e.g. '0.4.2'). Applies to HDK when source is 'all'. Defaults to the server's configured version"
+        ),
+    },
+  },
+  async (input: unknown) => {
+    const searchProgram = Effect.gen(function* () {
+      const decodedInput = yield* safeDecodeInput(SearchInputSchema)(input);
+      const docService = yield* HolochainDocServiceTag;
+      const { query, source = "all", version } = decodedInput;
+
+      let allResults: SearchResult[] = [];
+
+      if (source === "all" || source === "developer") {
+        const devResults = yield* docService.searchDeveloperDocs(query);
+        allResults = [...allResults, ...devResults];
+      }
+
+      if (source === "all" || source === "hdk") {
+        const hdkResults = yield* docService.searchRustDocs(
+          query,
+          "hdk",
+          version
+        );
+        allResults = [...allResults, ...hdkResults];
+      }
+
+      if (source === "all" || source === "hdi") {
+        const hdiResults = yield* docService.searchRustDocs(
+          query,
+          "hdi",
+          source === "hdi" ? version : undefined
+        );
+        allResults = [...allResults, ...hdiResults];
+      }
+
+      // Each source scales its scores to 0 to 1, and the stable sort keeps
+      // a source's own order between equal scores
+      return {
+        results: [...allResults].sort((a, b) => b.score - a.score),
+        query,
+      };
+    });
+
+    const result = await runPromise(
+      searchProgram.pipe(
+        Effect.catchAll((error) => {
+          const errorMessage = describeError(error);
+          return pipe(
+            Console.error(`Search error: ${errorMessage}`),
+            Effect.as({
+              results: [],
+              query: "unknown",
+              error: errorMessage,
+            })
+          );
+        })
+      )
+    );
+
+    if ("error" in result) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error searching documentation: ${result.error}`,
+          },
+        ],
+      };
+    }
+
+    const resultText = result.results
+      .map(
+        (r: SearchResult) =>
+          `**${r.title}** (${r.source}, score ${r.score.toFixed(2)})\n${r.url}\n${r.snippet}\n`
+      )
+      .join("\n---\n\n");
+
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            result.results.length > 0
+              ? `Found ${result.results.length} results for "${result.query}":\n\n${resultText}`
+              : `No results found for "${result.query}"`,
+        },
+      ],
+    };
+  }
+);
+
+// Tool: Fetch documentation page
+server.registerTool(
+  "fetch_holochain_doc",
+  {
+    description:
+      "Fetch the complete content of a specific Holochain documentation page",
+    inputSchema: {
+      url: z.string().describe("URL of the documentation page to fetch"),
+      version: z
+        .string()
+        .optional()
+        .describe(
+          "Crate version to fetch for docs.rs HDK/HDI URLs (e.g. '0.4.2'). Defaults to the version in the URL, or the server's configured version for 'latest' URLs"
+        ),
+      section: z
+        .string()
+        .optional()
+        .describe(
+          "Only return this section: a heading text or anchor id from get_doc_outline (e.g. 'validation-rules')"
+        ),
+      maxChars: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe(
+          "Split the content into parts of at most this many characters, at heading or paragraph boundaries"
+        ),
+      maxTokens: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe(
+          "Like maxChars, but as an approximate token count (4 characters per token)"
+        ),
+      cursor: z
+        .string()
+        .optional()
+        .describe(
+          "Cursor from a previous response to fetch another part of the same page and section"
+        ),
+    },
+  },
+  async (input: unknown) => {
+    const fetchProgram = Effect.gen(function* () {
+      const decodedInput = yield* safeDecodeInput(FetchInputSchema)(input);
+      const docService = yield* HolochainDocServiceTag;
+      const doc = yield* docService.fetchDocumentationPage(
+        decodedInput.url,
+        decodedInput.version
+      );
+      const selected =
+        decodedInput.section === undefined
+          ? doc
+          : yield* selectDocSection(doc, decodedInput.section);
+      return yield* pageDocument(selected, decodedInput);
+    });
+
+    const result = await runPromise(
+      fetchProgram.pipe(
+        Effect.catchAll((error) =>
+          Effect.succeed({ error: describeError(error) })
+        )
+      )
+    );
+
+    if ("error" in result) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error fetching documentation: ${result.error}`,
+          },
+        ],
       };
+    }
 
-      const normalizedConcept = concept.toLowerCase();
+    return {
+      content: [
+        {
+          type: "text",
+          text: formatContentPage(result),
+        },
+      ],
+    };
+  }
+);
 
-      return pipe(
-        Object.entries(conceptMappings),
-        Array.findFirst(
-          ([key]) =>
-            normalizedConcept.includes(key) || key.includes(normalizedConcept)
+// Tool: Outline a documentation page
+server.registerTool(
+  "get_doc_outline",
+  {
+    description:
+      "Get the heading tree of a Holochain documentation page with anchor ids, to pick a section for fetch_holochain_doc",
+    inputSchema: {
+      url: z.string().describe("URL of the documentation page to outline"),
+      version: z
+        .string()
+        .optional()
+        .describe(
+          "Crate version to outline for docs.rs HDK/HDI URLs (e.g. '0.4.2')"
         ),
-        Option.match({
-          onNone: () =>
-            Effect.fail(
-              new NotFoundError({ message: `Concept not found: ${concept}` })
-            ),
-          onSome: ([, path]) => {
-            const url = `${config.baseUrls.developer}${path}`;
-            return fetchDocumentationPage(url);
-          },
-        })
+    },
+  },
+  async (input: unknown) => {
+    const outlineProgram = Effect.gen(function* () {
+      const decodedInput = yield* safeDecodeInput(OutlineInputSchema)(input);
+      const docService = yield* HolochainDocServiceTag;
+      return yield* docService.getDocOutline(
+        decodedInput.url,
+        decodedInput.version
       );
-    };
+    });
+
+    const result = await runPromise(
+      outlineProgram.pipe(
+        Effect.catchAll((error) =>
+          Effect.succeed({ error: describeError(error) })
+        )
+      )
+    );
+
+    if ("error" in result) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error outlining documentation: ${result.error}`,
+          },
+        ],
+      };
+    }
 
     return {
-      searchDeveloperDocs,
-      searchRustDocs,
-      fetchDocumentationPage,
-      getHDKFunctionDocs,
-      getConceptDocs,
+      content: [
+        {
+          type: "text",
+          text: formatDocumentOutline(result),
+        },
+      ],
     };
-  })
-).pipe(
-  Layer.provide(HolochainConfigLive),
-  Layer.provide(HttpServiceLive),
-  Layer.provide(DocumentationParserLive)
+  }
 );
 
-// ==== MCP Server Setup ====
-const server = new McpServer({
-  name: "holochain-docs",
-  version: "1.0.0",
-});
+// Tool: Get HDK function documentation
+server.registerTool(
+  "get_hdk_function",
+  {
+    description: "Get documentation for a specific HDK function",
+    inputSchema: {
+      functionName: z
+        .string()
+        .describe(
+          "Name of the HDK function (e.g., create_entry, get_links, call)"
+        ),
+      version: z
+        .string()
+        .optional()
+        .describe(
+          "HDK crate version (e.g. '0.4.2'). Defaults to the server's configured version"
+        ),
+    },
+  },
+  async (input: unknown) => {
+    const functionProgram = Effect.gen(function* () {
+      const decodedInput = yield* safeDecodeInput(FunctionInputSchema)(input);
+      const docService = yield* HolochainDocServiceTag;
+      return yield* docService.getFunctionDocs(
+        "hdk",
+        decodedInput.functionName,
+        decodedInput.version
+      );
+    });
 
-// Create the runtime layer
-const MainLive = HolochainDocServiceLive.pipe(
-  Layer.provide(HttpServiceLive),
-  Layer.provide(HolochainConfigLive)
+    const result = await runPromise(
+      functionProgram.pipe(
+        Effect.catchAll((error) =>
+          Effect.succeed({ error: describeError(error) })
+        )
+      )
+    );
+
+    if ("error" in result) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error fetching HDK function documentation: ${result.error}`,
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: formatFunctionDocs(result),
+        },
+      ],
+    };
+  }
 );
 
-let runPromise: <E, A>(
-  effect: Effect.Effect<A, E, HolochainDocService>
-) => Promise<A>;
+server.registerTool(
+  "get_hdi_function",
+  {
+    description:
+      "Get documentation for a specific HDI function used in integrity zomes",
+    inputSchema: {
+      functionName: z
+        .string()
+        .describe(
+          "Name of the HDI function (e.g., must_get_valid_record, must_get_action, must_get_agent_activity)"
+        ),
+      version: z
+        .string()
+        .optional()
+        .describe(
+          "HDI crate version (e.g. '0.5.2'). Defaults to the server's configured version"
+        ),
+    },
+  },
+  async (input: unknown) => {
+    const functionProgram = Effect.gen(function* () {
+      const decodedInput = yield* safeDecodeInput(FunctionInputSchema)(input);
+      const docService = yield* HolochainDocServiceTag;
+      return yield* docService.getFunctionDocs(
+        "hdi",
+        decodedInput.functionName,
+        decodedInput.version
+      );
+    });
 
-// Helper function to safely decode input
-const safeDecodeInput =
-  <A, I>(schema: Schema.Schema<A, I>) =>
-  (input: unknown) =>
-    pipe(
-      Schema.decodeUnknown(schema)(input),
-      Effect.mapError((error) => ({ error: `Invalid input: ${error}` }))
+    const result = await runPromise(
+      functionProgram.pipe(
+        Effect.catchAll((error) =>
+          Effect.succeed({ error: describeError(error) })
+        )
+      )
     );
 
-// Tool: Search Holochain docs
+    if ("error" in result) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error fetching HDI function documentation: ${result.error}`,
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: formatFunctionDocs(result),
+        },
+      ],
+    };
+  }
+);
+
 server.registerTool(
-  "search_holochain_docs",
+  "get_rust_item",
   {
     description:
-      "Search across all Holochain documentation sources including developer guides, HDK, and HDI docs",
+      "Get documentation for any HDK or HDI item: structs, enums, traits, macros, type aliases, constants and functions. Returns the item kind, full path and docs",
     inputSchema: {
-      query: z.string().describe("Search query for Holochain documentation"),
-      source: z
-        .enum(["all", "developer", "hdk", "hdi"])
+      name: z
+        .string()
+        .describe(
+          "Item name or path (e.g., ActionHash, Record, LinkTypeFilter, #[hdk_extern], hdk::prelude::GetLinksInputBuilder)"
+        ),
+      crate: z
+        .enum(["hdk", "hdi"])
         .optional()
-        .describe("Specific documentation source to search (default: all)"),
+        .describe("Crate to look in. Searches both when omitted"),
+      kind: z
+        .enum([
+          "struct",
+          "enum",
+          "trait",
+          "macro",
+          "type",
+          "constant",
+          "fn",
+          "mod",
+          "static",
+          "union",
+          "traitalias",
+        ])
+        .optional()
+        .describe(
+          "Only match items of this kind. 'macro' includes attribute and derive macros"
+        ),
+      version: z
+        .string()
+        .optional()
+        .describe(
+          "Crate version (e.g. '0.4.2'). Applies to the HDK when crate is omitted"
+        ),
     },
   },
   async (input: unknown) => {
-    const searchProgram = Effect.gen(function* () {
-      const decodedInput = yield* safeDecodeInput(SearchInputSchema)(input);
+    const itemProgram = Effect.gen(function* () {
+      const decodedInput = yield* safeDecodeInput(RustItemInputSchema)(input);
       const docService = yield* HolochainDocServiceTag;
-      const { query, source = "all" } = decodedInput;
-
-      let allResults: SearchResult[] = [];
+      return yield* docService.getRustItemDocs(decodedInput.name, {
+        crate: decodedInput.crate,
+        kind: decodedInput.kind,
+        version: decodedInput.version,
+      });
+    });
 
-      if (source === "all" || source === "developer") {
-        const devResults = yield* docService.searchDeveloperDocs(query);
-        allResults = [...allResults, ...devResults];
-      }
+    const result = await runPromise(
+      itemProgram.pipe(
+        Effect.catchAll((error) =>
+          Effect.succeed({ error: describeError(error) })
+        )
+      )
+    );
 
-      if (source === "all" || source === "hdk") {
-        const hdkResults = yield* docService.searchRustDocs(query, "hdk");
-        allResults = [...allResults, ...hdkResults];
-      }
+    if ("error" in result) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error fetching Rust item documentation: ${result.error}`,
+          },
+        ],
+      };
+    }
 
-      if (source === "all" || source === "hdi") {
-        const hdiResults = yield* docService.searchRustDocs(query, "hdi");
-        allResults = [...allResults, ...hdiResults];
-      }
+    return {
+      content: [
+        {
+          type: "text",
+          text: formatRustItemDocs(result),
+        },
+      ],
+    };
+  }
+);
 
-      return { results: allResults, query };
+server.registerTool(
+  "diff_hdk_function",
+  {
+    description:
+      "Compare the documentation of an HDK function between two crate versions: signature, doc text and added/removed sections",
+    inputSchema: {
+      functionName: z
+        .string()
+        .describe(
+          "Name of the HDK function (e.g., create_entry, get_links)"
+        ),
+      fromVersion: z
+        .string()
+        .describe("HDK crate version to compare from (e.g. '0.3.6')"),
+      toVersion: z
+        .string()
+        .describe("HDK crate version to compare to (e.g. '0.4.2' or 'latest')"),
+    },
+  },
+  async (input: unknown) => {
+    const diffProgram = Effect.gen(function* () {
+      const decodedInput = yield* safeDecodeInput(DiffFunctionInputSchema)(input);
+      const docService = yield* HolochainDocServiceTag;
+      return yield* docService.diffHDKFunction(
+        decodedInput.functionName,
+        decodedInput.fromVersion,
+        decodedInput.toVersion
+      );
     });
 
     const result = await runPromise(
-      searchProgram.pipe(
-        Effect.catchAll((error) => {
-          const errorMessage =
-            typeof error === "object" && error !== null
-              ? JSON.stringify(error, null, 2)
-              : String(error);
-          return pipe(
-            Console.error(`Search error: ${errorMessage}`),
-            Effect.as({
-              results: [],
-              query: "unknown",
-              error: errorMessage,
-            })
-          );
-        })
+      diffProgram.pipe(
+        Effect.catchAll((error) =>
+          Effect.succeed({ error: describeError(error) })
+        )
       )
     );
 
@@ -1256,60 +6374,57 @@ server.registerTool(
         content: [
           {
             type: "text",
-            text: `Error searching documentation: ${result.error}`,
+            text: `Error diffing HDK function: ${result.error}`,
           },
         ],
       };
     }
 
-    const resultText = result.results
-      .map(
-        (r: SearchResult) =>
-          `**${r.title}** (${r.source})\n${r.url}\n${r.snippet}\n`
-      )
-      .join("\n---\n\n");
-
     return {
       content: [
         {
           type: "text",
-          text:
-            result.results.length > 0
-              ? `Found ${result.results.length} results for "${result.query}":\n\n${resultText}`
-              : `No results found for "${result.query}"`,
+          text: formatFunctionDiff(result),
         },
       ],
     };
   }
 );
 
-// Tool: Fetch documentation page
 server.registerTool(
-  "fetch_holochain_doc",
+  "diff_hdk_module",
   {
     description:
-      "Fetch the complete content of a specific Holochain documentation page",
+      "List the functions added to or removed from an HDK module between two crate versions",
     inputSchema: {
-      url: z.string().describe("URL of the documentation page to fetch"),
+      module: z
+        .string()
+        .describe(
+          "HDK module path (e.g., entry, link, p2p)"
+        ),
+      fromVersion: z
+        .string()
+        .describe("HDK crate version to compare from (e.g. '0.3.6')"),
+      toVersion: z
+        .string()
+        .describe("HDK crate version to compare to (e.g. '0.4.2' or 'latest')"),
     },
   },
   async (input: unknown) => {
-    const fetchProgram = Effect.gen(function* () {
-      const decodedInput = yield* safeDecodeInput(FetchInputSchema)(input);
+    const diffProgram = Effect.gen(function* () {
+      const decodedInput = yield* safeDecodeInput(DiffModuleInputSchema)(input);
       const docService = yield* HolochainDocServiceTag;
-      const doc = yield* docService.fetchDocumentationPage(decodedInput.url);
-      return doc;
+      return yield* docService.diffHDKModule(
+        decodedInput.module,
+        decodedInput.fromVersion,
+        decodedInput.toVersion
+      );
     });
 
     const result = await runPromise(
-      fetchProgram.pipe(
+      diffProgram.pipe(
         Effect.catchAll((error) =>
-          Effect.succeed({
-            error:
-              typeof error === "object" && error !== null
-                ? JSON.stringify(error, null, 2)
-                : String(error),
-          })
+          Effect.succeed({ error: describeError(error) })
         )
       )
     );
@@ -1319,7 +6434,7 @@ server.registerTool(
         content: [
           {
             type: "text",
-            text: `Error fetching documentation: ${result.error}`,
+            text: `Error diffing HDK module: ${result.error}`,
           },
         ],
       };
@@ -1329,45 +6444,42 @@ server.registerTool(
       content: [
         {
           type: "text",
-          text: `# ${result.title}\n\nSource: ${result.source}\nURL: ${result.url}\n\n${result.content}`,
+          text: formatModuleDiff(result),
         },
       ],
     };
   }
 );
 
-// Tool: Get HDK function documentation
+// Tool: Report HDK changes between two versions
 server.registerTool(
-  "get_hdk_function",
+  "hdk_migration_report",
   {
-    description: "Get documentation for a specific HDK function",
+    description:
+      "Report every HDK API change between two crate versions, grouped by module: removed and added functions, changed signatures and newly deprecated items",
     inputSchema: {
-      functionName: z
+      fromVersion: z
         .string()
-        .describe(
-          "Name of the HDK function (e.g., create_entry, get_links, call)"
-        ),
+        .describe("HDK crate version you are upgrading from (e.g. '0.3.6')"),
+      toVersion: z
+        .string()
+        .describe("HDK crate version you are upgrading to (e.g. '0.4.2')"),
     },
   },
   async (input: unknown) => {
-    const functionProgram = Effect.gen(function* () {
-      const decodedInput = yield* safeDecodeInput(FunctionInputSchema)(input);
+    const reportProgram = Effect.gen(function* () {
+      const decodedInput = yield* safeDecodeInput(MigrationInputSchema)(input);
       const docService = yield* HolochainDocServiceTag;
-      const doc = yield* docService.getHDKFunctionDocs(
-        decodedInput.functionName
+      return yield* docService.hdkMigrationReport(
+        decodedInput.fromVersion,
+        decodedInput.toVersion
       );
-      return doc;
     });
 
     const result = await runPromise(
-      functionProgram.pipe(
+      reportProgram.pipe(
         Effect.catchAll((error) =>
-          Effect.succeed({
-            error:
-              typeof error === "object" && error !== null
-                ? JSON.stringify(error, null, 2)
-                : String(error),
-          })
+          Effect.succeed({ error: describeError(error) })
         )
       )
     );
@@ -1377,7 +6489,7 @@ server.registerTool(
         content: [
           {
             type: "text",
-            text: `Error fetching HDK function documentation: ${result.error}`,
+            text: `Error building HDK migration report: ${result.error}`,
           },
         ],
       };
@@ -1387,7 +6499,7 @@ server.registerTool(
       content: [
         {
           type: "text",
-          text: `# HDK Function: ${result.title}\n\nURL: ${result.url}\n\n${result.content}`,
+          text: formatMigrationReport(result),
         },
       ],
     };
@@ -1406,6 +6518,12 @@ server.registerTool(
         .describe(
           "Holochain concept to get documentation for (e.g., 'source chain', 'dht', 'links', 'validation')"
         ),
+      section: z
+        .string()
+        .optional()
+        .describe(
+          "Only return this section of the concept page: a heading text or anchor id"
+        ),
     },
   },
   async (input: unknown) => {
@@ -1413,18 +6531,15 @@ server.registerTool(
       const decodedInput = yield* safeDecodeInput(ConceptInputSchema)(input);
       const docService = yield* HolochainDocServiceTag;
       const doc = yield* docService.getConceptDocs(decodedInput.concept);
-      return doc;
+      return decodedInput.section === undefined
+        ? doc
+        : yield* selectDocSection(doc, decodedInput.section);
     });
 
     const result = await runPromise(
       conceptProgram.pipe(
         Effect.catchAll((error) =>
-          Effect.succeed({
-            error:
-              typeof error === "object" && error !== null
-                ? JSON.stringify(error, null, 2)
-                : String(error),
-          })
+          Effect.succeed({ error: describeError(error) })
         )
       )
     );
@@ -1451,6 +6566,59 @@ server.registerTool(
   }
 );
 
+// Tool: Define a glossary term
+server.registerTool(
+  "define_holochain_term",
+  {
+    description:
+      "Define a Holochain term from the developer docs glossary, such as action, agent activity, DHT op or membrane proof",
+    inputSchema: {
+      term: z
+        .string()
+        .describe(
+          "Term to define (e.g., 'action', 'gossip', 'validation receipt')"
+        ),
+    },
+  },
+  async (input: unknown) => {
+    const termProgram = Effect.gen(function* () {
+      const decodedInput = yield* safeDecodeInput(TermInputSchema)(input);
+      const docService = yield* HolochainDocServiceTag;
+      return yield* docService.defineTerm(decodedInput.term);
+    });
+
+    const result = await runPromise(
+      termProgram.pipe(
+        Effect.catchAll((error) =>
+          Effect.succeed({ error: describeError(error) })
+        )
+      )
+    );
+
+    if ("error" in result) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error defining term: ${result.error}`,
+          },
+        ],
+      };
+    }
+
+    const aliases =
+      result.aliases.length > 0 ? ` (${result.aliases.join(", ")})` : "";
+    return {
+      content: [
+        {
+          type: "text",
+          text: `# ${result.term}${aliases}\n\nURL: ${result.url}\n\n${formatGlossaryDefinition(result)}`,
+        },
+      ],
+    };
+  }
+);
+
 // Tool: List HDK modules
 server.registerTool(
   "list_hdk_modules",
@@ -1489,22 +6657,483 @@ server.registerTool(
   }
 );
 
-// Testing exports will be added later
+// Tool: Detect HDK/HDI versions from a hApp workspace
+server.registerTool(
+  "detect_holochain_versions",
+  {
+    description:
+      "Read the hdk, hdi and holochain versions from a hApp workspace's Cargo.lock (or Cargo.toml) and use them as the default documentation versions",
+    inputSchema: {
+      workspacePath: z
+        .string()
+        .describe(
+          "Path to the hApp workspace root, or to its Cargo.toml / Cargo.lock"
+        ),
+    },
+  },
+  async (input: unknown) => {
+    const detectProgram = Effect.gen(function* () {
+      const decodedInput = yield* safeDecodeInput(WorkspaceInputSchema)(input);
+      const docService = yield* HolochainDocServiceTag;
+      return yield* docService.useWorkspaceVersions(decodedInput.workspacePath);
+    });
+
+    const result = await runPromise(
+      detectProgram.pipe(
+        Effect.catchAll((error) =>
+          Effect.succeed({ error: describeError(error) })
+        )
+      )
+    );
+
+    if ("error" in result) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error detecting Holochain versions: ${result.error}`,
+          },
+        ],
+      };
+    }
+
+    const versionList = holochainCrates
+      .map(
+        (crate) =>
+          `- **${crate}**: ${Option.getOrElse(result[crate], () => "not found")}`
+      )
+      .join("\n");
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `# Holochain Versions\n\nWorkspace: ${result.workspace}\nSource: ${result.source}\n\n${versionList}\n\nHDK and HDI documentation lookups now default to these versions.`,
+        },
+      ],
+    };
+  }
+);
+
+// Resources: the same docs as the tools, for clients that attach context
+// without calling a tool
+const readResource = async (uri: URL) => {
+  const result = await runPromise(Effect.either(readDocResource(uri.href)));
+  if (Either.isLeft(result)) {
+    throw new Error(describeError(result.left));
+  }
+  return {
+    contents: [
+      { uri: uri.href, mimeType: "text/markdown", text: result.right.text },
+    ],
+  };
+};
+
+for (const crate of ["hdk", "hdi"] as const) {
+  server.registerResource(
+    `${crate}-function`,
+    new ResourceTemplate(`holochain://${crate}/{module}/{function}`, {
+      list: async () => ({
+        resources: await runPromise(listFunctionResources(crate)),
+      }),
+      complete: {
+        module: (value) => runPromise(completeModules(crate, value)),
+        // Narrowed to the module when the client has already filled it in
+        function: (value, context) =>
+          runPromise(
+            completeFunctionNames(crate, value, context?.arguments?.module)
+          ),
+      },
+    }),
+    {
+      title: `${crate.toUpperCase()} function`,
+      description: `Documentation for an ${crate.toUpperCase()} function, by module and name (e.g. holochain://${crate}/entry/${crate === "hdk" ? "create_entry" : "must_get_entry"})`,
+      mimeType: "text/markdown",
+    },
+    readResource
+  );
+}
+
+server.registerResource(
+  "guide",
+  new ResourceTemplate("holochain://guide/{+path}", {
+    list: async () => ({ resources: await runPromise(listGuideResources) }),
+    complete: {
+      path: (value) => runPromise(completeGuidePaths(value)),
+    },
+  }),
+  {
+    title: "Developer guide page",
+    description:
+      "A page of the Holochain developer site, by path (e.g. holochain://guide/concepts/7_validation)",
+    mimeType: "text/markdown",
+  },
+  readResource
+);
+
+server.registerResource(
+  "concept",
+  new ResourceTemplate("holochain://concept/{concept}", {
+    list: async () => ({ resources: await runPromise(listConceptResources) }),
+    complete: {
+      concept: (value) => runPromise(completeConcepts(value)),
+    },
+  }),
+  {
+    title: "Holochain concept",
+    description:
+      "Explanation of a Holochain concept by name, like get_holochain_concept (e.g. holochain://concept/validation)",
+    mimeType: "text/markdown",
+  },
+  readResource
+);
+
+interface ResourceSubscriptions {
+  // Watches the page a resource was read from, replacing any earlier
+  // subscription to the same URI
+  readonly subscribe: (uri: string, url: string) => Effect.Effect<void>;
+  readonly unsubscribe: (uri: string) => Effect.Effect<void>;
+}
+
+// Each subscription refetches its page once per cache TTL, so a page that
+// changed upstream replaces its cache entry without anyone asking for it.
+// Every page cache change to a subscribed page is sent to notify, e.g. as
+// resources/updated
+const makeResourceSubscriptions = (
+  notify: (uri: string) => Promise<void>
+): Effect.Effect<
+  ResourceSubscriptions,
+  never,
+  HolochainConfig | HttpService | PageCache | Scope.Scope
+> =>
+  Effect.gen(function* () {
+    const config = yield* HolochainConfigService;
+    const httpService = yield* HttpServiceTag;
+    const pageCache = yield* PageCacheTag;
+    const scope = yield* Effect.scope;
+    // URI -> the page it was read from and the fiber revalidating that page
+    const subscriptions = new Map<
+      string,
+      { url: string; revalidation: Fiber.RuntimeFiber<never> }
+    >();
+
+    const changes = yield* pageCache.changes;
+    yield* Effect.forkIn(
+      Effect.forever(
+        Effect.flatMap(Queue.take(changes), ({ url }) =>
+          Effect.forEach(
+            [...subscriptions].filter(([, watched]) => watched.url === url),
+            ([uri]) => Effect.ignore(Effect.tryPromise(() => notify(uri))),
+            { discard: true }
+          )
+        )
+      ),
+      scope
+    );
+
+    // A failed refetch keeps the cached page, and the next round tries again
+    const revalidate = (url: string) =>
+      Effect.forever(
+        pipe(
+          Effect.sleep(Duration.millis(config.cache.ttl)),
+          Effect.zipRight(Effect.ignore(httpService.fetchPage(url)))
+        )
+      );
+
+    const unsubscribe = (uri: string) =>
+      Effect.suspend(() => {
+        const watched = subscriptions.get(uri);
+        subscriptions.delete(uri);
+        return watched ? Fiber.interrupt(watched.revalidation) : Effect.void;
+      }).pipe(Effect.asVoid);
+
+    const subscribe = (uri: string, url: string) =>
+      pipe(
+        unsubscribe(uri),
+        Effect.zipRight(Effect.forkIn(revalidate(url), scope)),
+        Effect.map((revalidation) => {
+          subscriptions.set(uri, { url, revalidation });
+        })
+      );
+
+    return { subscribe, unsubscribe };
+  });
+
+// Set once the services are running in main
+let resourceSubscriptions: ResourceSubscriptions;
+
+server.server.registerCapabilities({ resources: { subscribe: true } });
+
+server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  const { uri } = request.params;
+  const result = await runPromise(Effect.either(readDocResource(uri)));
+  if (Either.isLeft(result)) {
+    throw new Error(describeError(result.left));
+  }
+  await Effect.runPromise(resourceSubscriptions.subscribe(uri, result.right.url));
+  return {};
+});
+
+server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  await Effect.runPromise(resourceSubscriptions.unsubscribe(request.params.uri));
+  return {};
+});
+
+// Prompts: starting points for common zome development tasks, with the
+// docs they depend on attached
+server.registerPrompt(
+  "design_entry_type",
+  {
+    title: "Design an entry type",
+    description:
+      "Design a Holochain entry type: its Rust struct, entry definition and how it is created",
+    argsSchema: {
+      name: z.string().describe("Name of the entry type (e.g. 'Post')"),
+      purpose: z
+        .string()
+        .optional()
+        .describe("What the entry represents and which data it holds"),
+    },
+  },
+  async ({ name, purpose }) => ({
+    messages: await runPromise(
+      promptMessages(
+        [
+          "holochain://guide/concepts/3_source_chain",
+          findFunctionResourceUri("hdk", "create_entry"),
+        ],
+        [
+          `Design a Holochain entry type named \`${name}\`.`,
+          ...(purpose ? [`It represents: ${purpose}`] : []),
+          "Using the documentation above, provide:",
+          "1. The Rust struct with `#[hdk_entry_helper]` and its fields",
+          "2. The variant to add to the integrity zome's `EntryTypes` enum, with its `#[entry_type]` visibility",
+          "3. A coordinator zome function that creates the entry with `create_entry`",
+          "4. Validation rules the integrity zome should enforce for it",
+        ].join("\n")
+      )
+    ),
+  })
+);
+
+server.registerPrompt(
+  "write_validation_callback",
+  {
+    title: "Write a validation callback",
+    description:
+      "Write the integrity zome validation for an entry type, based on the validation concepts and the HDI must_get functions",
+    argsSchema: {
+      entryType: z
+        .string()
+        .describe("Entry type to validate (e.g. 'Post')"),
+      rules: z
+        .string()
+        .optional()
+        .describe(
+          "Rules the entry must follow (e.g. 'title is non-empty, only the author may update')"
+        ),
+    },
+  },
+  async ({ entryType, rules }) => ({
+    messages: await runPromise(
+      promptMessages(
+        [
+          "holochain://guide/concepts/7_validation",
+          findFunctionResourceUri("hdi", "must_get_valid_record"),
+        ],
+        [
+          `Write the validation for the \`${entryType}\` entry type in a Holochain integrity zome.`,
+          ...(rules ? [`Rules to enforce: ${rules}`] : []),
+          "Using the documentation above:",
+          "1. Handle the create, update and delete ops for the entry in the `validate` callback, matching on `op.flattened::<EntryTypes, LinkTypes>()`",
+          "2. Return `ValidateCallbackResult::Invalid` with a clear reason for each broken rule",
+          "3. Use the `must_get_*` functions for dependencies, so validation stays deterministic",
+          "4. Explain which checks can't be done in validation and why",
+        ].join("\n")
+      )
+    ),
+  })
+);
+
+server.registerPrompt(
+  "add_link_type_with_anchor",
+  {
+    title: "Add a link type with an anchor",
+    description:
+      "Add a link type that indexes entries under a well-known anchor, with the zome functions to create and query the links",
+    argsSchema: {
+      linkType: z
+        .string()
+        .describe("Name of the link type (e.g. 'AllPosts')"),
+      anchor: z
+        .string()
+        .optional()
+        .describe("Anchor the links hang off (e.g. 'all_posts')"),
+      target: z
+        .string()
+        .optional()
+        .describe("Entry type the links point to (e.g. 'Post')"),
+    },
+  },
+  async ({ linkType, anchor, target }) => ({
+    messages: await runPromise(
+      promptMessages(
+        [
+          "holochain://guide/concepts/5_links_anchors",
+          findFunctionResourceUri("hdk", "create_link"),
+          findFunctionResourceUri("hdk", "get_links"),
+        ],
+        [
+          `Add a \`${linkType}\` link type to a Holochain app.`,
+          ...(anchor ? [`The links hang off the anchor \`${anchor}\`.`] : []),
+          ...(target ? [`They point to \`${target}\` entries.`] : []),
+          "Using the documentation above, provide:",
+          "1. The variant to add to the integrity zome's `LinkTypes` enum, and validation for creating and deleting the link",
+          "2. A coordinator zome function that builds the anchor path and links a new entry to it with `create_link`",
+          "3. A coordinator zome function that lists the linked entries with `get_links`",
+          "4. Notes on hot spots if many links share one anchor",
+        ].join("\n")
+      )
+    ),
+  })
+);
+
+server.registerPrompt(
+  "review_coordinator_zome",
+  {
+    title: "Review my coordinator zome",
+    description:
+      "Review coordinator zome code against the Holochain docs on zome functions and validation",
+    argsSchema: {
+      code: z.string().describe("Rust source of the coordinator zome"),
+      focus: z
+        .string()
+        .optional()
+        .describe(
+          "What to focus on (e.g. 'error handling', 'performance', 'capability grants')"
+        ),
+    },
+  },
+  async ({ code, focus }) => ({
+    messages: await runPromise(
+      promptMessages(
+        [
+          "holochain://guide/concepts/6_zome_functions",
+          "holochain://guide/concepts/7_validation",
+        ],
+        [
+          "Review this Holochain coordinator zome using the documentation above.",
+          ...(focus ? [`Focus on: ${focus}`] : []),
+          "Point out incorrect HDK usage, logic that belongs in the integrity zome's validation, missing error handling, and calls that could be cheaper. For each issue, quote the code and suggest a fix.",
+          "",
+          "```rust",
+          code,
+          "```",
+        ].join("\n")
+      )
+    ),
+  })
+);
+
+// ==== Testing exports ====
+export {
+  FetchError,
+  HttpStatusError,
+  TimeoutError,
+  BrowserError,
+  HolochainConfigService,
+  PageCacheTag,
+  PageCacheLive,
+  SearchIndexTag,
+  SearchIndexLive,
+  SiteCrawlerTag,
+  SiteCrawlerLive,
+  HttpServiceTag,
+  HttpServiceLive,
+  makeHttpServiceLive,
+  makeResourceSubscriptions,
+  fetchOverHttp,
+  fetchFailures,
+  isBlockedRequest,
+  makeBrowserPool,
+  pinDocsRsVersion,
+  documentOutline,
+  selectDocSection,
+  paginateContent,
+  pageDocument,
+  listFunctionResources,
+  listGuideResources,
+  readDocResource,
+  promptMessages,
+  findFunctionResourceUri,
+  completeFunctionNames,
+  completeModules,
+  completeConcepts,
+  completeGuidePaths,
+  HolochainDocServiceTag,
+  HolochainDocServiceLive,
+  parseCliArgs,
+  configFromCliOptions,
+  parseCargoLock,
+  parseCargoManifest,
+  detectWorkspaceVersions,
+  type HolochainConfig,
+  type PageCache,
+  type PageCacheEntry,
+};
 
 // Start the server
 async function main() {
+  const options = Either.getOrElse(
+    parseCliArgs(process.argv.slice(2)),
+    (message) => {
+      console.error(`${message}\n\n${cliUsage}`);
+      return process.exit(1);
+    }
+  );
+  const workspaceVersions = Option.isSome(options.workspace)
+    ? Option.some(
+        await Effect.runPromise(
+          detectWorkspaceVersions(options.workspace.value).pipe(
+            Effect.provide(NodeFileSystem.layer)
+          )
+        )
+      )
+    : Option.none();
+  const config = configFromCliOptions(options, workspaceVersions);
+
+  if (options.command === "prefetch") {
+    await Effect.runPromise(
+      prefetchDocumentation.pipe(
+        Effect.provide(makeMainLive(config)),
+        Effect.provide(NodeFileSystem.layer)
+      )
+    );
+    process.exit(0);
+  }
+
   const scope = await Effect.runPromise(Scope.make());
   const runtime = await Effect.runPromise(
-    Layer.toRuntime(MainLive).pipe(Effect.provideService(Scope.Scope, scope))
+    Layer.toRuntime(makeMainLive(config)).pipe(
+      Effect.provideService(Scope.Scope, scope)
+    )
   );
   runPromise = Runtime.runPromise(runtime);
+  resourceSubscriptions = await Runtime.runPromise(runtime)(
+    makeResourceSubscriptions((uri) =>
+      server.server.sendResourceUpdated({ uri })
+    ).pipe(Effect.provideService(Scope.Scope, scope))
+  );
 
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("Holochain MCP Server running on stdio");
 }
 
-main().catch((error) => {
-  console.error("Failed to start server:", error);
-  process.exit(1);
-});
+// The test suite imports this module, so only start when run for real
+if (process.env.NODE_ENV !== "test") {
+  main().catch((error) => {
+    console.error("Failed to start server:", error);
+    process.exit(1);
+  });
+}
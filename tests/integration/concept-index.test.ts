@@ -0,0 +1,229 @@
+import { Effect, Layer } from "effect"
+import { describe, it, expect, beforeEach } from "vitest"
+import { runTest } from "../setup.js"
+import {
+  FetchError,
+  HolochainConfigService,
+  HolochainDocServiceTag,
+  HolochainDocServiceLive,
+  HttpServiceTag,
+  SearchIndexLive,
+  SiteCrawlerLive,
+} from "../../index.js"
+import { makeTestConfig } from "../unit/test-utils.js"
+
+const developer = "https://developer.holochain.org"
+
+const guidePage = (title: string) => `
+  <html><head><title>${title}</title></head>
+  <body><div class="main-area"><h1>${title}</h1><p>All about ${title.toLowerCase()} in Holochain.</p></div></body></html>
+`
+
+const navigationPage = `
+  <html><head><title>The Basics</title></head>
+  <body>
+    <nav class="site-nav">
+      <a href="/">Home</a>
+      <a href="/concepts/">Concepts</a>
+      <a href="/concepts/1_the_basics/">The Basics</a>
+      <a href="/concepts/3_source_chain/">Source Chain: A Personal Data Journal</a>
+      <a href="/concepts/8_calls_capabilities/">Calls and Capabilities</a>
+      <a href="/concepts/10_countersigning/">Countersigning</a>
+      <a href="/build/entries/">Entries</a>
+      <a href="/build/lifecycle-events-and-callbacks/">Lifecycle Events and Callbacks</a>
+      <a href="https://github.com/holochain/holochain">GitHub</a>
+    </nav>
+    <div class="main-area"><h1>The Basics</h1></div>
+  </body></html>
+`
+
+const sitemap = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>${developer}/</loc></url>
+  <url><loc>${developer}/concepts/11_membranes/</loc></url>
+  <url><loc>${developer}/build/working-with-data/</loc></url>
+</urlset>`
+
+const glossaryPage = `
+  <html><head><title>Glossary</title></head>
+  <body><div class="main-area">
+    <h1>Glossary</h1>
+    <h2 id="a">A</h2>
+    <h3 id="action">Action</h3>
+    <p>A piece of data that records an agent's act on their <a href="#source-chain">source chain</a>.</p>
+    <h3 id="agent-activity">Agent activity</h3>
+    <p>The <a href="#action">actions</a> an agent has written, as seen by the <a href="/resources/glossary/#distributed-hash-table-dht">DHT</a>.</p>
+    <h2 id="d">D</h2>
+    <h3 id="distributed-hash-table-dht">Distributed hash table (DHT)</h3>
+    <p>A shared key/value store spread across peers.</p>
+    <ul><li>Peers <em>gossip</em> data</li></ul>
+    <h3 id="dht-operation">DHT operation</h3>
+    <p>A unit of <a href="#gossip">gossip</a> sent to the authorities for a piece of data.</p>
+    <h2 id="s">S</h2>
+    <h3 id="source-chain">Source chain</h3>
+    <p>An agent's personal hash chain of actions.</p>
+  </div></body></html>
+`
+
+describe("Concept index", () => {
+  let pages: Record<string, string>
+  let requested: string[]
+
+  const withDocService = <A, E>(program: Effect.Effect<A, E, typeof HolochainDocServiceTag.Service>) =>
+    program.pipe(
+      Effect.provide(
+        HolochainDocServiceLive.pipe(
+          Layer.provide(SiteCrawlerLive),
+          Layer.provide(
+            Layer.succeed(HttpServiceTag, {
+              fetchPage: (url: string) => {
+                requested.push(url)
+                return pages[url] !== undefined
+                  ? Effect.succeed(pages[url])
+                  : Effect.fail(new FetchError({ message: `No fixture for ${url}` }))
+              },
+            })
+          ),
+          Layer.provide(SearchIndexLive),
+          Layer.provide(Layer.succeed(HolochainConfigService, makeTestConfig("/unused")))
+        )
+      )
+    )
+
+  beforeEach(() => {
+    requested = []
+    pages = {
+      [`${developer}/concepts/1_the_basics`]: navigationPage,
+      [`${developer}/concepts/3_source_chain`]: guidePage("Source Chain"),
+      [`${developer}/concepts/8_calls_capabilities`]: guidePage("Calls and Capabilities"),
+      [`${developer}/concepts/10_countersigning`]: guidePage("Countersigning"),
+      [`${developer}/build/entries`]: guidePage("Entries"),
+      [`${developer}/build/lifecycle-events-and-callbacks`]: guidePage("Lifecycle Events and Callbacks"),
+      [`${developer}/resources/glossary`]: glossaryPage,
+    }
+  })
+
+  it("should index every concept and build-guide page in the site navigation", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const index = yield* docService.getConceptIndex()
+
+      expect(index.map((page) => page.url)).toEqual([
+        `${developer}/concepts/1_the_basics`,
+        `${developer}/concepts/3_source_chain`,
+        `${developer}/concepts/8_calls_capabilities`,
+        `${developer}/concepts/10_countersigning`,
+        `${developer}/build/entries`,
+        `${developer}/build/lifecycle-events-and-callbacks`,
+      ])
+      expect(index.find((page) => page.title === "Countersigning")?.aliases).toEqual(["countersigning"])
+      expect(index.find((page) => page.title.startsWith("Source Chain"))?.aliases).toContain("chain")
+    })))
+  )
+
+  it("should resolve concepts missing from the old fixed mapping", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+
+      for (const [concept, title] of [
+        ["countersigning", "Countersigning"],
+        ["capabilities", "Calls and Capabilities"],
+        ["entries", "Entries"],
+        ["lifecycle events", "Lifecycle Events and Callbacks"],
+        ["source chain", "Source Chain"],
+        ["countersignng", "Countersigning"],
+      ] as const) {
+        const doc = yield* docService.getConceptDocs(concept)
+        expect(doc.title).toBe(title)
+      }
+      // The navigation page is fetched once and the index is cached
+      expect(requested.filter((url) => url === `${developer}/concepts/1_the_basics`)).toHaveLength(1)
+    })))
+  )
+
+  it("should suggest the nearest concepts when nothing matches", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const error = yield* Effect.flip(docService.getConceptDocs("countersign capability"))
+
+      expect(error._tag).toBe("NotFoundError")
+      expect(error.message).toContain("Concept not found: countersign capability")
+      expect(error.message).toMatch(/Did you mean: .*(Countersigning|Calls and Capabilities)/)
+    })))
+  )
+
+  it("should fall back to the sitemap when the navigation has no guide links", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      pages[`${developer}/concepts/1_the_basics`] = guidePage("The Basics")
+      pages[`${developer}/sitemap.xml`] = sitemap
+      const docService = yield* HolochainDocServiceTag
+      const index = yield* docService.getConceptIndex()
+
+      expect(index.map((page) => [page.title, page.url])).toEqual([
+        ["Membranes", `${developer}/concepts/11_membranes`],
+        ["Working With Data", `${developer}/build/working-with-data`],
+      ])
+    })))
+  )
+
+  it("should fall back to the known pages when the site is unreachable", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      pages = {}
+      const docService = yield* HolochainDocServiceTag
+      const index = yield* docService.getConceptIndex()
+
+      expect(index.map((page) => page.url)).toContain(`${developer}/concepts/7_validation`)
+      expect(index.find((page) => page.url.endsWith("/concepts/4_dht"))?.aliases).toContain("distributed hash table")
+    })))
+  )
+
+  describe("glossary", () => {
+    it("should parse terms, aliases and cross-references", () =>
+      runTest(withDocService(Effect.gen(function* () {
+        const docService = yield* HolochainDocServiceTag
+        const glossary = yield* docService.getGlossary()
+
+        expect(glossary.map((entry) => entry.term)).toEqual([
+          "Action",
+          "Agent activity",
+          "Distributed hash table",
+          "DHT operation",
+          "Source chain",
+        ])
+        const dht = glossary.find((entry) => entry.term === "Distributed hash table")
+        expect(dht?.aliases).toEqual(["DHT"])
+        expect(dht?.definition).toBe("A shared key/value store spread across peers.\n\n- Peers *gossip* data")
+        expect(glossary.find((entry) => entry.term === "Agent activity")?.seeAlso).toEqual([
+          "Action",
+          "Distributed hash table",
+        ])
+        // Links to terms missing from the glossary are dropped
+        expect(glossary.find((entry) => entry.term === "DHT operation")?.seeAlso).toEqual([])
+      })))
+    )
+
+    it("should look terms up by alias and fuzzy name", () =>
+      runTest(withDocService(Effect.gen(function* () {
+        const docService = yield* HolochainDocServiceTag
+
+        expect((yield* docService.defineTerm("dht")).term).toBe("Distributed hash table")
+        expect((yield* docService.defineTerm("agent activty")).term).toBe("Agent activity")
+        expect((yield* docService.defineTerm("DHT op")).url).toBe(`${developer}/resources/glossary#dht-operation`)
+
+        const error = yield* Effect.flip(docService.defineTerm("warrant"))
+        expect(error.message).toContain("Term not found in the glossary: warrant")
+      })))
+    )
+
+    it("should back-fill concept lookups from the glossary", () =>
+      runTest(withDocService(Effect.gen(function* () {
+        const docService = yield* HolochainDocServiceTag
+        const doc = yield* docService.getConceptDocs("agent activity")
+
+        expect(doc.title).toBe("Agent activity")
+        expect(doc.url).toBe(`${developer}/resources/glossary#agent-activity`)
+        expect(doc.content).toContain("**See also:** Action, Distributed hash table")
+      })))
+    )
+  })
+})
@@ -0,0 +1,105 @@
+import { Clock, Effect, Layer, Schedule } from "effect"
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { createServer, type Server } from "http"
+import type { AddressInfo } from "net"
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { runTest } from "../setup.js"
+import {
+  HolochainConfigService,
+  HolochainDocServiceTag,
+  HolochainDocServiceLive,
+  HttpServiceLive,
+  PageCacheLive,
+  SearchIndexLive,
+  SiteCrawlerLive,
+  type HolochainConfig,
+} from "../../index.js"
+import { makeTestConfig } from "../unit/test-utils.js"
+import { MockResponses } from "../fixtures/mock-http-responses.js"
+
+const otherPaths = Array.from({ length: 50 }, (_, i) => `/build/page-${i}`)
+
+// Local stand-in for developer.holochain.org where only the validation page
+// answers; every other page hangs
+const startSiteServer = (requests: string[]) =>
+  new Promise<Server>((resolve) => {
+    const server = createServer((req, res) => {
+      requests.push(req.url ?? "")
+      const origin = `http://${req.headers.host}`
+      if (req.url === "/sitemap.xml") {
+        res.writeHead(200, { "Content-Type": "application/xml" })
+        res.end(`<urlset>${["/concepts/7_validation", ...otherPaths]
+          .map((path) => `<url><loc>${origin}${path}</loc></url>`)
+          .join("")}</urlset>`)
+      } else if (req.url === "/concepts/7_validation") {
+        res.writeHead(200, { "Content-Type": "text/html" })
+        res.end(MockResponses.VALIDATION_PAGE)
+      }
+    })
+    server.listen(0, "127.0.0.1", () => resolve(server))
+  })
+
+describe("Developer docs search", () => {
+  let directory: string
+  let server: Server
+  let config: HolochainConfig
+  let requests: string[]
+
+  const withDocService = <A, E>(program: Effect.Effect<A, E, typeof HolochainDocServiceTag.Service>) =>
+    program.pipe(
+      Effect.provide(
+        HolochainDocServiceLive.pipe(
+          Layer.provide(SiteCrawlerLive),
+          Layer.provide(HttpServiceLive),
+          Layer.provide(Layer.merge(PageCacheLive, SearchIndexLive)),
+          Layer.provide(Layer.succeed(HolochainConfigService, config))
+        )
+      )
+    )
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), "holochain-mcp-search-"))
+    requests = []
+    server = await startSiteServer(requests)
+    const base = makeTestConfig(directory)
+    config = {
+      ...base,
+      baseUrls: { ...base.baseUrls, developer: `http://127.0.0.1:${(server.address() as AddressInfo).port}` },
+    }
+  })
+
+  afterEach(async () => {
+    server.closeAllConnections()
+    await new Promise((resolve) => server.close(resolve))
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("should answer from the pages matching the query without waiting for the whole site", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const results = yield* docService.searchDeveloperDocs("validation")
+
+      expect(results.map((result) => result.url)).toEqual([`${config.baseUrls.developer}/concepts/7_validation`])
+    })))
+  )
+
+  it("should seed the rest of the site registry in the background", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      yield* docService.searchDeveloperDocs("validation")
+
+      // Polls on the real clock until the seeding fiber reaches the page
+      const seeded = yield* Effect.suspend(() =>
+        requests.includes("/build/page-0") ? Effect.succeed(true) : Effect.fail("not requested yet")
+      ).pipe(
+        Effect.retry(Schedule.spaced("10 millis").pipe(Schedule.upTo("5 seconds"))),
+        Effect.withClock(Clock.make()),
+        Effect.orElseSucceed(() => false)
+      )
+
+      expect(seeded).toBe(true)
+    })))
+  )
+})
@@ -0,0 +1,197 @@
+import { Effect, Layer } from "effect"
+import { describe, it, expect, beforeEach } from "vitest"
+import { runTest } from "../setup.js"
+import {
+  FetchError,
+  HolochainConfigService,
+  HolochainDocServiceTag,
+  HolochainDocServiceLive,
+  HttpServiceTag,
+  SearchIndexLive,
+  SiteCrawlerTag,
+  SiteCrawlerLive,
+  completeConcepts,
+  completeFunctionNames,
+  completeGuidePaths,
+  completeModules,
+  findFunctionResourceUri,
+  listFunctionResources,
+  listGuideResources,
+  promptMessages,
+  readDocResource,
+} from "../../index.js"
+import { makeTestConfig } from "../unit/test-utils.js"
+import { MockResponses } from "../fixtures/mock-http-responses.js"
+
+const developer = "https://developer.holochain.org"
+const hdk = "https://docs.rs/hdk/0.4.2"
+
+const searchIndexJs = (data: unknown) =>
+  `var searchIndex = new Map(JSON.parse('${JSON.stringify(data)}'));`
+
+const pages: Record<string, string> = {
+  [`${developer}/sitemap.xml`]: `<urlset>
+    <url><loc>${developer}/</loc></url>
+    <url><loc>${developer}/concepts/7_validation/</loc></url>
+  </urlset>`,
+  [`${developer}/concepts/7_validation`]: MockResponses.VALIDATION_PAGE,
+  [`${hdk}/hdk/index.html`]: `
+    <html><body><div id="rustdoc-vars" data-root-path="../" data-search-index-js="search-index.js"></div></body></html>
+  `,
+  [`${hdk}/search-index.js`]: searchIndexJs([
+    ["hdk", {
+      t: "HHH",
+      n: ["create_entry", "get_links", "hdk_main"],
+      q: [[0, "hdk::entry"], [1, "hdk::link"], [2, "hdk"]],
+    }],
+  ]),
+  [`${hdk}/hdk/entry/fn.create_entry.html`]: MockResponses.HDK_CREATE_ENTRY_PAGE,
+}
+
+describe("Documentation resources", () => {
+  let requested: string[]
+
+  const withServices = <A, E>(
+    program: Effect.Effect<
+      A,
+      E,
+      | typeof HolochainDocServiceTag.Service
+      | typeof SiteCrawlerTag.Service
+      | typeof HolochainConfigService.Service
+    >
+  ) =>
+    program.pipe(
+      Effect.provide(
+        HolochainDocServiceLive.pipe(
+          Layer.provideMerge(SiteCrawlerLive),
+          Layer.provide(
+            Layer.succeed(HttpServiceTag, {
+              fetchPage: (url: string) => {
+                requested.push(url)
+                return pages[url] !== undefined
+                  ? Effect.succeed(pages[url])
+                  : Effect.fail(new FetchError({ message: `No fixture for ${url}` }))
+              },
+            })
+          ),
+          Layer.provide(SearchIndexLive),
+          Layer.provideMerge(Layer.succeed(HolochainConfigService, {
+            ...makeTestConfig("/unused"),
+            defaultVersions: { hdk: "0.4.2", hdi: "0.5.1" },
+          }))
+        )
+      )
+    )
+
+  beforeEach(() => {
+    requested = []
+  })
+
+  it("should list HDK functions by module and name", () =>
+    runTest(withServices(Effect.gen(function* () {
+      const resources = yield* listFunctionResources("hdk")
+
+      expect(resources.map((resource) => resource.uri)).toEqual([
+        "holochain://hdk/entry/create_entry",
+        "holochain://hdk/link/get_links",
+      ])
+      expect(resources[0]?.name).toBe("hdk::entry::create_entry")
+    })))
+  )
+
+  it("should list developer pages from the site registry", () =>
+    runTest(withServices(Effect.gen(function* () {
+      const resources = yield* listGuideResources
+
+      expect(resources.map((resource) => [resource.uri, resource.name])).toEqual([
+        ["holochain://guide/concepts/7_validation", "Validation"],
+      ])
+    })))
+  )
+
+  it("should read a function resource as function docs", () =>
+    runTest(withServices(Effect.gen(function* () {
+      const content = yield* readDocResource("holochain://hdk/entry/create_entry")
+
+      expect(content.url).toBe(`${hdk}/hdk/entry/fn.create_entry.html`)
+      expect(content.text).toContain("# HDK Function: create_entry")
+    })))
+  )
+
+  it("should read a guide resource as Markdown", () =>
+    runTest(withServices(Effect.gen(function* () {
+      const content = yield* readDocResource("holochain://guide/concepts/7_validation")
+
+      expect(content.url).toBe(`${developer}/concepts/7_validation`)
+      expect(content.text).toContain("Validation: Assuring Data Integrity")
+    })))
+  )
+
+  it("should not resolve a function in the wrong module", () =>
+    runTest(withServices(Effect.gen(function* () {
+      const error = yield* Effect.flip(readDocResource("holochain://hdk/link/create_entry"))
+
+      expect(error._tag).toBe("NotFoundError")
+      expect(requested).not.toContain(`${hdk}/hdk/entry/fn.create_entry.html`)
+    })))
+  )
+
+  it("should embed prompt docs as resources and leave out docs that fail to resolve or load", () =>
+    runTest(withServices(Effect.gen(function* () {
+      const messages = yield* promptMessages(
+        [
+          "holochain://guide/concepts/7_validation",
+          findFunctionResourceUri("hdk", "create_link"),
+          findFunctionResourceUri("hdk", "create_entry"),
+        ],
+        "Write a validation callback."
+      )
+
+      expect(messages.map((message) => message.content.type)).toEqual(["resource", "resource", "text"])
+      expect(messages[1]?.content).toMatchObject({
+        resource: { uri: "holochain://hdk/entry/create_entry", mimeType: "text/markdown" },
+      })
+      expect(messages[2]?.content).toEqual({ type: "text", text: "Write a validation callback." })
+    })))
+  )
+
+  it("should suggest the closest functions when a prompt's function doesn't resolve", () =>
+    runTest(withServices(Effect.gen(function* () {
+      expect(yield* findFunctionResourceUri("hdk", "create_entry")).toBe("holochain://hdk/entry/create_entry")
+
+      const error = yield* Effect.flip(findFunctionResourceUri("hdk", "creat_entry"))
+      expect(error._tag).toBe("NotFoundError")
+      expect(error.message).toContain("Did you mean: create_entry?")
+    })))
+  )
+
+  describe("argument completion", () => {
+    it("should complete function names with fuzzy matching", () =>
+      runTest(withServices(Effect.gen(function* () {
+        expect(yield* completeFunctionNames("hdk", "creat_entry")).toEqual(["create_entry"])
+        expect(yield* completeFunctionNames("hdk", "")).toEqual(["create_entry", "get_links", "hdk_main"])
+        expect(yield* completeFunctionNames("hdk", "", "link")).toEqual(["get_links"])
+      })))
+    )
+
+    it("should complete modules", () =>
+      runTest(withServices(Effect.gen(function* () {
+        expect(yield* completeModules("hdk", "")).toEqual(["entry", "link"])
+        expect(yield* completeModules("hdk", "lin")).toEqual(["link"])
+      })))
+    )
+
+    it("should complete concepts and guide paths", () =>
+      runTest(withServices(Effect.gen(function* () {
+        expect(yield* completeConcepts("validaton")).toEqual(["Validation"])
+        expect(yield* completeGuidePaths("valid")).toEqual(["concepts/7_validation"])
+      })))
+    )
+
+    it("should complete nothing when the registry is unavailable", () =>
+      runTest(withServices(Effect.gen(function* () {
+        expect(yield* completeFunctionNames("hdi", "must_get")).toEqual([])
+      })))
+    )
+  })
+})
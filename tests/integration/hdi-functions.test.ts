@@ -0,0 +1,231 @@
+import { Effect, Layer } from "effect"
+import { describe, it, expect, beforeEach } from "vitest"
+import { runTest } from "../setup.js"
+import {
+  FetchError,
+  HolochainConfigService,
+  HolochainDocServiceTag,
+  HolochainDocServiceLive,
+  HttpServiceTag,
+  SearchIndexLive,
+  SiteCrawlerLive,
+} from "../../index.js"
+import { makeTestConfig } from "../unit/test-utils.js"
+
+const searchIndexJs = (data: unknown) =>
+  `var searchIndex = new Map(JSON.parse('${JSON.stringify(data).replace(/'/g, "\\'")}'));`
+
+const functionPage = (name: string, summary: string) => `
+  <html>
+    <head><title>${name} in hdi::entry - Rust</title></head>
+    <body><section id="main-content"><h1>Function ${name}</h1><p>${summary}</p></section></body>
+  </html>
+`
+
+// The HDK re-exports must_get_valid_record from the HDI. The HDI has no
+// search index fixture, so its functions come from crawling module pages
+const pages: Record<string, string> = {
+  "https://docs.rs/hdk/0.4.2/hdk/index.html": `
+    <html><body><div id="rustdoc-vars" data-root-path="../" data-search-index-js="search-index.js"></div></body></html>
+  `,
+  "https://docs.rs/hdk/0.4.2/search-index.js": searchIndexJs([
+    ["hdk", {
+      t: "HH",
+      n: ["create_entry", "must_get_valid_record"],
+      q: [[0, "hdk::entry"]],
+    }],
+  ]),
+  "https://docs.rs/hdi/0.5.1/hdi/entry/index.html": `
+    <html><body>
+      <a href="fn.must_get_valid_record.html">must_get_valid_record</a>
+      <a href="fn.must_get_entry.html">must_get_entry</a>
+    </body></html>
+  `,
+  "https://docs.rs/hdi/0.5.1/hdi/entry/fn.must_get_valid_record.html": functionPage(
+    "must_get_valid_record",
+    "Get a valid record or fail validation."
+  ),
+  "https://docs.rs/hdi/0.5.1/hdi/entry/fn.must_get_entry.html": functionPage(
+    "must_get_entry",
+    "Get an entry or fail validation."
+  ),
+  "https://docs.rs/hdk/0.4.2/hdk/entry/fn.must_get_valid_record.html": functionPage(
+    "must_get_valid_record",
+    "Get a valid record or fail validation."
+  ),
+  "https://docs.rs/hdk/0.4.2/hdk/entry/fn.create_entry.html": functionPage(
+    "create_entry",
+    "Create an app entry."
+  ),
+  // HDK 0.3.6 depends on HDI 0.4.6, which already has must_get_valid_record
+  "https://docs.rs/crate/hdk/0.3.6": `
+    <html><body><ul>
+      <li><a href="/hdi/=0.4.6">hdi =0.4.6 <i class="dependencies normal">normal</i></a></li>
+      <li><a href="/serde/^1.0">serde ^1.0 <i class="dependencies normal">normal</i></a></li>
+    </ul></body></html>
+  `,
+  "https://docs.rs/hdk/0.3.6/hdk/index.html": `
+    <html><body><div id="rustdoc-vars" data-root-path="../" data-search-index-js="search-index.js"></div></body></html>
+  `,
+  "https://docs.rs/hdk/0.3.6/search-index.js": searchIndexJs([
+    ["hdk", {
+      t: "H",
+      n: ["must_get_valid_record"],
+      q: [[0, "hdk::entry"]],
+    }],
+  ]),
+  "https://docs.rs/hdk/0.3.6/hdk/entry/fn.must_get_valid_record.html": functionPage(
+    "must_get_valid_record",
+    "Get a valid record or fail validation."
+  ),
+  "https://docs.rs/hdi/0.4.6/hdi/entry/index.html": `
+    <html><body><a href="fn.must_get_valid_record.html">must_get_valid_record</a></body></html>
+  `,
+  // HDK 0.3.5's crate page lists no HDI, and HDK 0.3.4's crate page can't be
+  // fetched at all
+  "https://docs.rs/crate/hdk/0.3.5": `
+    <html><body><ul>
+      <li><a href="/serde/^1.0">serde ^1.0 <i class="dependencies normal">normal</i></a></li>
+    </ul></body></html>
+  `,
+  ...Object.fromEntries(["0.3.5", "0.3.4"].flatMap((version) => [
+    [`https://docs.rs/hdk/${version}/hdk/index.html`, `
+      <html><body><div id="rustdoc-vars" data-root-path="../" data-search-index-js="search-index.js"></div></body></html>
+    `],
+    [`https://docs.rs/hdk/${version}/search-index.js`, searchIndexJs([
+      ["hdk", { t: "H", n: ["must_get_valid_record"], q: [[0, "hdk::entry"]] }],
+    ])],
+    [`https://docs.rs/hdk/${version}/hdk/entry/fn.must_get_valid_record.html`, functionPage(
+      "must_get_valid_record",
+      "Get a valid record or fail validation."
+    )],
+  ])),
+}
+
+describe("HDI function lookup", () => {
+  let requested: string[]
+
+  const withDocService = <A, E>(program: Effect.Effect<A, E, typeof HolochainDocServiceTag.Service>) =>
+    program.pipe(
+      Effect.provide(
+        HolochainDocServiceLive.pipe(
+          Layer.provide(SiteCrawlerLive),
+          Layer.provide(
+            Layer.succeed(HttpServiceTag, {
+              fetchPage: (url: string) => {
+                requested.push(url)
+                return pages[url] !== undefined
+                  ? Effect.succeed(pages[url])
+                  : Effect.fail(new FetchError({ message: `No fixture for ${url}` }))
+              },
+            })
+          ),
+          Layer.provide(SearchIndexLive),
+          Layer.provide(Layer.succeed(HolochainConfigService, {
+            ...makeTestConfig("/unused"),
+            defaultVersions: { hdk: "0.4.2", hdi: "0.5.1" },
+          }))
+        )
+      )
+    )
+
+  beforeEach(() => {
+    requested = []
+  })
+
+  it("should discover HDI functions by crawling module pages without a search index", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const functions = yield* docService.discoverHDIFunctions()
+
+      expect(functions).toEqual([
+        { name: "must_get_valid_record", url: "https://docs.rs/hdi/0.5.1/hdi/entry/fn.must_get_valid_record.html" },
+        { name: "must_get_entry", url: "https://docs.rs/hdi/0.5.1/hdi/entry/fn.must_get_entry.html" },
+      ])
+      expect(requested).not.toContain("https://docs.rs/hdk/0.4.2/hdk/index.html")
+    })))
+  )
+
+  it("should cache HDI discovery separately from the HDK", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      yield* docService.discoverHDIFunctions()
+      yield* docService.discoverHDKFunctions()
+      const afterFirst = requested.length
+
+      yield* docService.discoverHDIFunctions()
+      yield* docService.discoverHDKFunctions()
+
+      expect(requested).toHaveLength(afterFirst)
+    })))
+  )
+
+  it("should fuzzy match HDI function names", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const docs = yield* docService.getFunctionDocs("hdi", "must_get_entries")
+
+      expect(docs.crate).toBe("hdi")
+      expect(docs.origin).toBe("hdi")
+      expect(docs.version).toBe("0.5.1")
+      expect(docs.page.url).toBe("https://docs.rs/hdi/0.5.1/hdi/entry/fn.must_get_entry.html")
+    })))
+  )
+
+  it("should report HDK functions re-exported from the HDI", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+
+      const reexported = yield* docService.getFunctionDocs("hdk", "must_get_valid_record")
+      expect(reexported.crate).toBe("hdk")
+      expect(reexported.origin).toBe("hdi")
+      expect(reexported.page.url).toBe("https://docs.rs/hdk/0.4.2/hdk/entry/fn.must_get_valid_record.html")
+
+      const own = yield* docService.getFunctionDocs("hdk", "create_entry")
+      expect(own.origin).toBe("hdk")
+    })))
+  )
+
+  it("should check re-exports against the HDI that the requested HDK depends on", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const docs = yield* docService.getFunctionDocs("hdk", "must_get_valid_record", "0.3.6")
+
+      expect(docs.origin).toBe("hdi")
+      expect(requested).toContain("https://docs.rs/hdi/0.4.6/hdi/entry/index.html")
+      expect(requested).not.toContain("https://docs.rs/hdi/0.5.1/hdi/entry/index.html")
+    })))
+  )
+
+  it("should fall back to the configured HDI when the crate page names none, and remember it", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const docs = yield* docService.getFunctionDocs("hdk", "must_get_valid_record", "0.3.5")
+      yield* docService.getFunctionDocs("hdk", "must_get_valid_record", "0.3.5")
+
+      expect(docs.origin).toBe("hdi")
+      expect(requested).toContain("https://docs.rs/hdi/0.5.1/hdi/entry/index.html")
+      expect(requested.filter((url) => url === "https://docs.rs/crate/hdk/0.3.5")).toHaveLength(1)
+    })))
+  )
+
+  it("should report a failed crate page fetch instead of guessing the HDI", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const error = yield* Effect.flip(docService.getFunctionDocs("hdk", "must_get_valid_record", "0.3.4"))
+
+      expect(error._tag).toBe("FetchError")
+      expect(error.message).toContain("https://docs.rs/crate/hdk/0.3.4")
+    })))
+  )
+
+  it("should fail with the HDI crate named in the error", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const error = yield* Effect.flip(docService.getFunctionDocs("hdi", "create_link"))
+
+      expect(error._tag).toBe("NotFoundError")
+      expect(error.message).toContain("Failed to lookup HDI function: create_link")
+    })))
+  )
+})
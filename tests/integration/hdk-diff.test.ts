@@ -0,0 +1,178 @@
+import { Effect, Layer, Option } from "effect"
+import { describe, it, expect } from "vitest"
+import { runTest } from "../setup.js"
+import {
+  HolochainConfigService,
+  HolochainDocServiceTag,
+  HolochainDocServiceLive,
+  HttpServiceTag,
+  SearchIndexLive,
+  SiteCrawlerLive,
+  FetchError,
+} from "../../index.js"
+import { makeTestConfig } from "../unit/test-utils.js"
+
+const indexPage = (links: string[]) => `
+  <html><body>${links.map((href) => `<a href="${href}">${href}</a>`).join("")}</body></html>
+`
+
+const functionPage = (signature: string, docblock: string, banner = "") => `
+  <html>
+    <head><title>fn - Rust</title></head>
+    <body>
+      <section id="main-content">
+        <pre class="rust item-decl"><code>${signature}</code></pre>
+        <span class="item-info">${banner}</span>
+        <details class="toggle top-doc" open><summary></summary>
+          <div class="docblock">${docblock}</div>
+        </details>
+      </section>
+    </body>
+  </html>
+`
+
+// Two docs.rs snapshots of the HDK with a changed, an added, a removed and a
+// newly deprecated function. get has no page in either snapshot
+const pages: Record<string, string> = {
+  "https://docs.rs/hdk/0.3.0/hdk/index.html": indexPage([
+    "entry/fn.create_entry.html",
+    "entry/fn.get.html",
+    "entry/fn.hash_entry.html",
+    "link/fn.get_link_details.html",
+  ]),
+  "https://docs.rs/hdk/0.4.0/hdk/index.html": indexPage([
+    "entry/fn.create_entry.html",
+    "entry/fn.get.html",
+    "entry/fn.must_get_entry.html",
+    "link/fn.get_link_details.html",
+  ]),
+  "https://docs.rs/hdk/0.3.0/hdk/entry/fn.create_entry.html": functionPage(
+    "pub fn create_entry&lt;I, E&gt;(input: I) -&gt; ExternResult&lt;HeaderHash&gt;",
+    `<p>Create an app entry.</p>
+     <h2 id="examples">Examples<a class="doc-anchor" href="#examples">§</a></h2>
+     <pre><code>create_entry(foo)?;</code></pre>`
+  ),
+  "https://docs.rs/hdk/0.4.0/hdk/entry/fn.create_entry.html": functionPage(
+    "pub fn create_entry&lt;I, E&gt;(input: I) -&gt; ExternResult&lt;ActionHash&gt;",
+    `<p>Create an app entry.</p>
+     <p>The entry is validated before it is committed.</p>
+     <h2 id="examples">Examples<a class="doc-anchor" href="#examples">§</a></h2>
+     <pre><code>create_entry(&amp;EntryTypes::Foo(foo))?;</code></pre>
+     <h2 id="errors">Errors</h2>
+     <p>Fails when validation fails.</p>`
+  ),
+  "https://docs.rs/hdk/0.3.0/hdk/entry/fn.hash_entry.html": functionPage(
+    "pub fn hash_entry&lt;I&gt;(input: I) -&gt; ExternResult&lt;EntryHash&gt;",
+    "<p>Hash an entry.</p>"
+  ),
+  "https://docs.rs/hdk/0.4.0/hdk/entry/fn.must_get_entry.html": functionPage(
+    "pub fn must_get_entry(entry_hash: EntryHash) -&gt; ExternResult&lt;EntryHashed&gt;",
+    "<p>Get an entry or fail.</p>"
+  ),
+  "https://docs.rs/hdk/0.3.0/hdk/link/fn.get_link_details.html": functionPage(
+    "pub fn get_link_details(input: GetLinksInput) -&gt; ExternResult&lt;LinkDetails&gt;",
+    "<p>Get links with their deletes.</p>"
+  ),
+  "https://docs.rs/hdk/0.4.0/hdk/link/fn.get_link_details.html": functionPage(
+    "pub fn get_link_details(input: GetLinksInput) -&gt; ExternResult&lt;LinkDetails&gt;",
+    "<p>Get links with their deletes.</p>",
+    `<div class="stab deprecated"><span class="emoji">👎</span><span>Deprecated since 0.4.0: use get_links</span></div>`
+  ),
+}
+
+const withDocService = <A, E>(program: Effect.Effect<A, E, typeof HolochainDocServiceTag.Service>) =>
+  program.pipe(
+    Effect.provide(
+      HolochainDocServiceLive.pipe(
+        Layer.provide(SiteCrawlerLive),
+        Layer.provide(
+          Layer.succeed(HttpServiceTag, {
+            fetchPage: (url: string) =>
+              pages[url] !== undefined
+                ? Effect.succeed(pages[url])
+                : Effect.fail(new FetchError({ message: `No fixture for ${url}` })),
+          })
+        ),
+        Layer.provide(SearchIndexLive),
+        Layer.provide(Layer.succeed(HolochainConfigService, makeTestConfig("/unused")))
+      )
+    )
+  )
+
+describe("HDK Documentation Diffs", () => {
+  it("should report signature, doc text and section changes", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const diff = yield* docService.diffHDKFunction("create_entry", "0.3.0", "0.4.0")
+
+      expect(diff.status).toBe("changed")
+      expect(diff.signatureChanged).toBe(true)
+      expect(Option.getOrThrow(diff.before).signature).toContain("HeaderHash")
+      expect(Option.getOrThrow(diff.after).signature).toContain("ActionHash")
+      expect(diff.docs.added).toContain("The entry is validated before it is committed.")
+      expect(diff.sections.added).toEqual(["Errors"])
+      expect(diff.sections.removed).toEqual([])
+      expect(diff.sections.changed).toEqual(["Examples"])
+    })))
+  )
+
+  it("should mark functions missing from one version as added or removed", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+
+      const added = yield* docService.diffHDKFunction("must_get_entry", "0.3.0", "0.4.0")
+      expect(added.status).toBe("added")
+      expect(Option.isNone(added.before)).toBe(true)
+
+      const removed = yield* docService.diffHDKFunction("hash_entry", "0.3.0", "0.4.0")
+      expect(removed.status).toBe("removed")
+      expect(Option.isNone(removed.after)).toBe(true)
+    })))
+  )
+
+  it("should list functions added to and removed from a module", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const diff = yield* docService.diffHDKModule("hdk::entry", "0.3.0", "0.4.0")
+
+      expect(diff.module).toBe("entry")
+      expect(diff.added.map((f) => f.name)).toEqual(["must_get_entry"])
+      expect(diff.removed.map((f) => f.name)).toEqual(["hash_entry"])
+      expect(diff.unchanged).toContain("create_entry")
+    })))
+  )
+
+  it("should build a migration report grouped by module", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const report = yield* docService.hdkMigrationReport("0.3.0", "0.4.0")
+      const module = (name: string) => report.modules.find((m) => m.module === name)
+
+      const entry = module("entry")
+      expect(entry?.removed.map((f) => f.name)).toEqual(["hash_entry"])
+      expect(entry?.added.map((f) => f.name)).toEqual(["must_get_entry"])
+      expect(entry?.signatureChanges).toEqual([
+        {
+          name: "create_entry",
+          before: "pub fn create_entry<I, E>(input: I) -> ExternResult<HeaderHash>",
+          after: "pub fn create_entry<I, E>(input: I) -> ExternResult<ActionHash>",
+        },
+      ])
+
+      expect(module("link")?.deprecations).toEqual([
+        { name: "get_link_details", notice: "Deprecated since 0.4.0: use get_links" },
+      ])
+      // Functions without a fixture page can't be compared
+      expect(report.unchecked).toContain("entry::get")
+    })))
+  )
+
+  it("should fail for unknown modules", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const error = yield* Effect.flip(docService.diffHDKModule("nonexistent", "0.3.0", "0.4.0"))
+
+      expect(error._tag).toBe("NotFoundError")
+    })))
+  )
+})
@@ -0,0 +1,172 @@
+import { Clock, Effect, Layer, Metric } from "effect"
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { createServer, type Server } from "http"
+import type { AddressInfo } from "net"
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { runTest } from "../setup.js"
+import {
+  HolochainConfigService,
+  HttpServiceTag,
+  HttpServiceLive,
+  PageCacheLive,
+  fetchFailures,
+  SearchIndexLive,
+  type HolochainConfig,
+} from "../../index.js"
+import { makeTestConfig } from "../unit/test-utils.js"
+
+const pageBody = `
+  <html>
+    <head><title>get in hdk::entry - Rust</title></head>
+    <body><div class="docblock">Gets a record for a given hash. This page is long enough to be cached.</div></body>
+  </html>
+`
+
+// Each path answers with its queued statuses first, then with the page
+const startFlakyServer = (
+  responses: Record<string, Array<{ status: number; headers?: Record<string, string> }>>,
+  requests: Array<{ path: string; time: number }>
+) =>
+  new Promise<Server>((resolve) => {
+    const server = createServer((req, res) => {
+      const path = req.url ?? ""
+      requests.push({ path, time: Date.now() })
+      const next = responses[path]?.shift()
+      if (next) {
+        res.writeHead(next.status, next.headers)
+        res.end("Service Unavailable")
+        return
+      }
+      res.writeHead(200, { "Content-Type": "text/html" })
+      res.end(pageBody)
+    })
+    server.listen(0, "127.0.0.1", () => resolve(server))
+  })
+
+describe("HTTP retries and rate limiting", () => {
+  let directory: string
+  let server: Server
+  let origin: string
+  let config: HolochainConfig
+  let responses: Record<string, Array<{ status: number; headers?: Record<string, string> }>>
+  let requests: Array<{ path: string; time: number }>
+
+  // Backoff and rate limiting sleep for real, so the test clock is replaced
+  const withHttp = <A, E>(program: Effect.Effect<A, E, typeof HttpServiceTag.Service>) =>
+    program.pipe(
+      Effect.provide(
+        HttpServiceLive.pipe(
+          Layer.provide(Layer.merge(PageCacheLive, SearchIndexLive)),
+          Layer.provide(Layer.succeed(HolochainConfigService, config))
+        )
+      ),
+      Effect.withClock(Clock.make())
+    )
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), "holochain-mcp-retries-"))
+    responses = {}
+    requests = []
+    server = await startFlakyServer(responses, requests)
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    config = makeTestConfig(directory)
+  })
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve))
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("should retry 5xx responses until the page loads", () =>
+    runTest(withHttp(Effect.gen(function* () {
+      responses["/hdk/fn.get.html"] = [{ status: 503 }, { status: 502 }]
+      const http = yield* HttpServiceTag
+      const content = yield* http.fetchPage(`${origin}/hdk/fn.get.html`)
+
+      expect(content).toBe(pageBody)
+      expect(requests).toHaveLength(3)
+    })))
+  )
+
+  it("should give up after the policy's retries with the status", () =>
+    runTest(withHttp(Effect.gen(function* () {
+      responses["/hdk/fn.get.html"] = [{ status: 500 }, { status: 500 }, { status: 500 }, { status: 500 }]
+      const http = yield* HttpServiceTag
+      const error = yield* Effect.flip(http.fetchPage(`${origin}/hdk/fn.get.html`))
+
+      expect(error._tag).toBe("HttpStatusError")
+      if (error._tag === "HttpStatusError") {
+        expect(error.status).toBe(500)
+      }
+      // serverError allows two retries in the test config
+      expect(requests).toHaveLength(3)
+    })))
+  )
+
+  it("should wait for Retry-After on 429 responses", () =>
+    runTest(withHttp(Effect.gen(function* () {
+      responses["/hdk/fn.get.html"] = [{ status: 429, headers: { "Retry-After": "1" } }]
+      const http = yield* HttpServiceTag
+      yield* http.fetchPage(`${origin}/hdk/fn.get.html`)
+
+      expect(requests).toHaveLength(2)
+      const [first, second] = requests.map((request) => request.time)
+      expect((second ?? 0) - (first ?? 0)).toBeGreaterThanOrEqual(900)
+    }))),
+    10_000
+  )
+
+  it("should fail fast when Retry-After asks for more than the maximum wait", () =>
+    runTest(withHttp(Effect.gen(function* () {
+      responses["/hdk/fn.get.html"] = [{ status: 429, headers: { "Retry-After": "3600" } }]
+      const http = yield* HttpServiceTag
+      const error = yield* Effect.flip(http.fetchPage(`${origin}/hdk/fn.get.html`))
+
+      expect(error._tag).toBe("HttpStatusError")
+      if (error._tag === "HttpStatusError") {
+        expect(error.status).toBe(429)
+      }
+      expect(requests).toHaveLength(1)
+    })))
+  )
+
+  it("should not retry client errors", () =>
+    runTest(withHttp(Effect.gen(function* () {
+      responses["/hdk/fn.gone.html"] = [{ status: 410 }]
+      const http = yield* HttpServiceTag
+      yield* Effect.either(http.fetchPage(`${origin}/hdk/fn.gone.html`))
+
+      expect(requests).toHaveLength(1)
+    })))
+  )
+
+  it("should space out requests to one host beyond its burst", () => {
+    config = { ...config, rateLimit: { requestsPerSecond: 20, burst: 1 } }
+    return runTest(withHttp(Effect.gen(function* () {
+      const http = yield* HttpServiceTag
+      yield* Effect.forEach(["/a.html", "/b.html", "/c.html"], (path) => http.fetchPage(`${origin}${path}`), {
+        concurrency: 3,
+      })
+
+      const times = requests.map((request) => request.time).sort((a, b) => a - b)
+      // Two requests wait 50ms each for a token
+      expect((times[2] ?? 0) - (times[0] ?? 0)).toBeGreaterThanOrEqual(90)
+    })))
+  })
+
+  it("should count failures by host and kind", () =>
+    runTest(withHttp(Effect.gen(function* () {
+      responses["/hdk/fn.get.html"] = [{ status: 500 }, { status: 500 }, { status: 500 }]
+      const http = yield* HttpServiceTag
+      yield* Effect.either(http.fetchPage(`${origin}/hdk/fn.get.html`))
+
+      const failures = fetchFailures.pipe(
+        Metric.tagged("host", new URL(origin).host),
+        Metric.tagged("kind", "status")
+      )
+      expect((yield* Metric.value(failures)).count).toBe(1)
+    })))
+  )
+})
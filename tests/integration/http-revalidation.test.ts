@@ -0,0 +1,129 @@
+import { Effect, Layer, Option } from "effect"
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { createServer, type IncomingHttpHeaders, type Server } from "http"
+import type { AddressInfo } from "net"
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import type { HttpClient } from "@effect/platform"
+import { NodeHttpClient } from "@effect/platform-node"
+import { runTest } from "../setup.js"
+import {
+  HolochainConfigService,
+  PageCacheTag,
+  PageCacheLive,
+  fetchOverHttp,
+  type HolochainConfig,
+  type PageCache,
+} from "../../index.js"
+import { makeTestConfig } from "../unit/test-utils.js"
+
+const pageBody = (version: string) => `
+  <html>
+    <head><title>create_entry in hdk::entry - Rust</title></head>
+    <body><div class="docblock">Create an app entry. Documentation revision ${version}.</div></body>
+  </html>
+`
+
+// Local stand-in for docs.rs that honours If-None-Match
+const startDocsServer = (state: { etag: string; requests: IncomingHttpHeaders[] }) =>
+  new Promise<Server>((resolve) => {
+    const server = createServer((req, res) => {
+      state.requests.push(req.headers)
+      if (req.headers["if-none-match"] === state.etag) {
+        res.writeHead(304, { ETag: state.etag })
+        res.end()
+        return
+      }
+      res.writeHead(200, {
+        "Content-Type": "text/html",
+        ETag: state.etag,
+        "Last-Modified": "Wed, 01 Jan 2025 00:00:00 GMT",
+      })
+      res.end(pageBody(state.etag))
+    })
+    server.listen(0, "127.0.0.1", () => resolve(server))
+  })
+
+describe("HTTP Conditional Revalidation", () => {
+  let directory: string
+  let server: Server
+  let url: string
+  const state = { etag: "\"v1\"", requests: [] as IncomingHttpHeaders[] }
+
+  const withServices = <A, E>(
+    program: Effect.Effect<A, E, HolochainConfig | HttpClient.HttpClient | PageCache>
+  ) =>
+    program.pipe(
+      Effect.provide(
+        Layer.mergeAll(PageCacheLive, NodeHttpClient.layer).pipe(
+          // A zero TTL makes every cached entry stale immediately
+          Layer.provideMerge(Layer.succeed(HolochainConfigService, makeTestConfig(directory, { ttl: 0 })))
+        )
+      )
+    )
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), "holochain-mcp-revalidate-"))
+    state.etag = "\"v1\""
+    state.requests = []
+    server = await startDocsServer(state)
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hdk/latest/hdk/entry/fn.create_entry.html`
+  })
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve))
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("should store validators from the first response", () =>
+    runTest(withServices(Effect.gen(function* () {
+      const content = yield* fetchOverHttp(url, Option.none())
+      expect(content).toContain("revision \"v1\"")
+
+      const cache = yield* PageCacheTag
+      const cached = yield* cache.get(url)
+      expect(Option.isSome(cached)).toBe(true)
+      if (Option.isSome(cached)) {
+        expect(cached.value.entry.etag).toBe("\"v1\"")
+        expect(cached.value.entry.lastModified).toBe("Wed, 01 Jan 2025 00:00:00 GMT")
+      }
+    })))
+  )
+
+  it("should send validators and refresh the timestamp on 304", () =>
+    runTest(withServices(Effect.gen(function* () {
+      const cache = yield* PageCacheTag
+      yield* fetchOverHttp(url, Option.none())
+      const stale = yield* cache.get(url)
+      const firstFetchedAt = Option.getOrThrow(stale).entry.fetchedAt
+
+      yield* Effect.promise(() => new Promise((resolve) => setTimeout(resolve, 5)))
+      const content = yield* fetchOverHttp(url, stale)
+
+      expect(content).toBe(Option.getOrThrow(stale).content)
+      expect(state.requests[1]?.["if-none-match"]).toBe("\"v1\"")
+      expect(state.requests[1]?.["if-modified-since"]).toBe("Wed, 01 Jan 2025 00:00:00 GMT")
+
+      const refreshed = Option.getOrThrow(yield* cache.get(url))
+      expect(refreshed.entry.fetchedAt).toBeGreaterThan(firstFetchedAt)
+      expect(refreshed.entry.contentHash).toBe(Option.getOrThrow(stale).entry.contentHash)
+    })))
+  )
+
+  it("should replace the cached page when the server has a newer version", () =>
+    runTest(withServices(Effect.gen(function* () {
+      const cache = yield* PageCacheTag
+      yield* fetchOverHttp(url, Option.none())
+      const stale = yield* cache.get(url)
+
+      state.etag = "\"v2\""
+      const content = yield* fetchOverHttp(url, stale)
+
+      expect(content).toContain("revision \"v2\"")
+      const updated = Option.getOrThrow(yield* cache.get(url))
+      expect(updated.entry.etag).toBe("\"v2\"")
+      expect(updated.content).toContain("revision \"v2\"")
+    })))
+  )
+})
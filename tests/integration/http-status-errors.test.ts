@@ -0,0 +1,158 @@
+import { Effect, Layer, Option } from "effect"
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { createServer, type Server } from "http"
+import type { AddressInfo } from "net"
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { runTest } from "../setup.js"
+import {
+  HolochainConfigService,
+  HolochainDocServiceTag,
+  HolochainDocServiceLive,
+  HttpServiceTag,
+  HttpServiceLive,
+  HttpStatusError,
+  PageCacheTag,
+  PageCacheLive,
+  SearchIndexLive,
+  SiteCrawlerLive,
+  TimeoutError,
+  type HolochainConfig,
+} from "../../index.js"
+import { makeTestConfig } from "../unit/test-utils.js"
+
+// A docs page that talks about errors, which the old substring checks refused to cache
+const wasmErrorPage = `
+  <html>
+    <head><title>WasmError in hdi::prelude - Rust</title></head>
+    <body><section id="main-content"><div class="docblock">
+      Error type returned by host functions. A 404 from a remote call is reported as a WasmError too.
+    </div></section></body>
+  </html>
+`
+
+const notFoundPage = `
+  <html><head><title>The requested resource does not exist</title></head>
+  <body><h1>404 Not Found</h1><p>The requested resource does not exist on docs.rs, sorry about that.</p></body></html>
+`
+
+const startDocsServer = () =>
+  new Promise<Server>((resolve) => {
+    const server = createServer((req, res) => {
+      if (req.url === "/hdi/prelude/struct.WasmError.html") {
+        res.writeHead(200, { "Content-Type": "text/html" })
+        res.end(wasmErrorPage)
+        return
+      }
+      res.writeHead(404, { "Content-Type": "text/html" })
+      res.end(notFoundPage)
+    })
+    server.listen(0, "127.0.0.1", () => resolve(server))
+  })
+
+describe("HTTP status errors", () => {
+  let directory: string
+  let server: Server
+  let origin: string
+  let config: HolochainConfig
+
+  const withHttp = <A, E>(
+    program: Effect.Effect<A, E, typeof HttpServiceTag.Service | typeof PageCacheTag.Service>
+  ) =>
+    program.pipe(
+      Effect.provide(
+        HttpServiceLive.pipe(
+          Layer.provideMerge(Layer.merge(PageCacheLive, SearchIndexLive)),
+          Layer.provide(Layer.succeed(HolochainConfigService, config))
+        )
+      )
+    )
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), "holochain-mcp-status-"))
+    server = await startDocsServer()
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    config = makeTestConfig(directory)
+  })
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve))
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("should fail with the status instead of returning a 404 page", () =>
+    runTest(withHttp(Effect.gen(function* () {
+      const http = yield* HttpServiceTag
+      const cache = yield* PageCacheTag
+      const url = `${origin}/hdk/fn.missing.html`
+      const error = yield* Effect.flip(http.fetchPage(url))
+
+      expect(error).toBeInstanceOf(HttpStatusError)
+      expect(error).toMatchObject({ status: 404, url })
+      expect(Option.isNone(yield* cache.get(url))).toBe(true)
+    })))
+  )
+
+  it("should cache pages that mention errors", () =>
+    runTest(withHttp(Effect.gen(function* () {
+      const http = yield* HttpServiceTag
+      const cache = yield* PageCacheTag
+      const url = `${origin}/hdi/prelude/struct.WasmError.html`
+
+      expect(yield* http.fetchPage(url)).toBe(wasmErrorPage)
+      expect(Option.isSome(yield* cache.get(url))).toBe(true)
+    })))
+  )
+
+  describe("documentation lookups", () => {
+    const withDocService = <A, E>(
+      failure: HttpStatusError | TimeoutError,
+      program: Effect.Effect<A, E, typeof HolochainDocServiceTag.Service>
+    ) =>
+      program.pipe(
+        Effect.provide(
+          HolochainDocServiceLive.pipe(
+            Layer.provide(SiteCrawlerLive),
+            Layer.provide(Layer.succeed(HttpServiceTag, { fetchPage: () => Effect.fail(failure) })),
+            Layer.provide(SearchIndexLive),
+            Layer.provide(Layer.succeed(HolochainConfigService, makeTestConfig("/unused")))
+          )
+        )
+      )
+
+    const url = "https://docs.rs/hdk/0.4.2/hdk/entry/fn.create_entry.html"
+
+    it("should report a 404 as a missing page", () =>
+      runTest(withDocService(
+        new HttpStatusError({ message: "HTTP 404", url, status: 404 }),
+        Effect.gen(function* () {
+          const docService = yield* HolochainDocServiceTag
+          const error = yield* Effect.flip(docService.fetchDocumentationPage(url))
+
+          expect(error._tag).toBe("NotFoundError")
+        })
+      ))
+    )
+
+    it("should keep server errors and timeouts distinct from missing pages", () =>
+      runTest(Effect.gen(function* () {
+        const serverError = yield* withDocService(
+          new HttpStatusError({ message: "HTTP 503", url, status: 503 }),
+          Effect.flatMap(HolochainDocServiceTag, (docService) =>
+            Effect.flip(docService.fetchDocumentationPage(url))
+          )
+        )
+        const timeout = yield* withDocService(
+          new TimeoutError({ message: "Timeout", url }),
+          Effect.flatMap(HolochainDocServiceTag, (docService) =>
+            Effect.flip(docService.fetchDocumentationPage(url))
+          )
+        )
+
+        expect(serverError).toMatchObject({ _tag: "HttpStatusError", status: 503 })
+        expect(timeout._tag).toBe("TimeoutError")
+      }))
+    )
+  })
+})
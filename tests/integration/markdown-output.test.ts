@@ -0,0 +1,130 @@
+import { Effect, Layer } from "effect"
+import { describe, it, expect } from "vitest"
+import { runTest } from "../setup.js"
+import {
+  FetchError,
+  HolochainConfigService,
+  HolochainDocServiceTag,
+  HolochainDocServiceLive,
+  HttpServiceTag,
+  SearchIndexLive,
+  SiteCrawlerLive,
+} from "../../index.js"
+import { makeTestConfig } from "../unit/test-utils.js"
+
+const guideUrl = "https://developer.holochain.org/build/entries/"
+const functionUrl = "https://docs.rs/hdk/0.4.2/hdk/entry/fn.create_entry.html"
+
+const pages: Record<string, string> = {
+  [guideUrl]: `
+    <html>
+      <head><title>Entries</title></head>
+      <body>
+        <nav class="main-nav"><a href="/">Home</a><a href="/get-started/">Get Started</a></nav>
+        <div class="main-area">
+          <h1>Entries</h1>
+          <p>An <strong>entry</strong> is a piece of data on the source chain. See the
+             <a href="/concepts/3_source_chain/">source chain</a> concept.</p>
+          <h2>Define an entry type</h2>
+          <ul>
+            <li>Derive <code>EntryDefRegistration</code></li>
+            <li>Mark it with <code>#[hdk_entry_helper]</code>
+              <ol><li>Nested step</li></ol>
+            </li>
+          </ul>
+          <pre><code class="language-rust">#[hdk_entry_helper]
+pub struct Movie {
+    pub title: String,
+}</code></pre>
+          <table>
+            <thead><tr><th>Action</th><th>Function</th></tr></thead>
+            <tbody><tr><td>Create</td><td><code>create_entry</code></td></tr></tbody>
+          </table>
+        </div>
+        <footer>Copyright Holochain Foundation</footer>
+      </body>
+    </html>
+  `,
+  [functionUrl]: `
+    <html>
+      <head><title>create_entry in hdk::entry - Rust</title></head>
+      <body>
+        <nav class="sidebar"><a href="index.html">In hdk::entry</a></nav>
+        <section id="main-content">
+          <div class="main-heading">
+            <h1>Function <a href="index.html">hdk::entry</a>::<span class="fn">create_entry</span></h1>
+            <rustdoc-toolbar></rustdoc-toolbar>
+            <span class="out-of-band"><a class="src" href="../../src/hdk/entry.rs.html#38">Source</a></span>
+          </div>
+          <pre class="rust item-decl"><code>pub fn create_entry&lt;I, E&gt;(input: I) -&gt; ExternResult&lt;ActionHash&gt;</code></pre>
+          <details class="toggle top-doc" open><summary class="hideme"><span>Expand description</span></summary>
+            <div class="docblock">
+              <p>Create an app entry.</p>
+              <h2 id="examples"><a class="doc-anchor" href="#examples">§</a>Examples</h2>
+              <div class="example-wrap"><pre class="rust rust-example-rendered"><code>let hash = create_entry(&amp;EntryTypes::Movie(movie))?;
+if hash.is_empty() {
+    return Err(wasm_error!("empty"));
+}</code></pre></div>
+            </div>
+          </details>
+        </section>
+      </body>
+    </html>
+  `,
+}
+
+const withDocService = <A, E>(program: Effect.Effect<A, E, typeof HolochainDocServiceTag.Service>) =>
+  program.pipe(
+    Effect.provide(
+      HolochainDocServiceLive.pipe(
+        Layer.provide(SiteCrawlerLive),
+        Layer.provide(
+          Layer.succeed(HttpServiceTag, {
+            fetchPage: (url: string) =>
+              pages[url] !== undefined
+                ? Effect.succeed(pages[url])
+                : Effect.fail(new FetchError({ message: `No fixture for ${url}` })),
+          })
+        ),
+        Layer.provide(SearchIndexLive),
+        Layer.provide(Layer.succeed(HolochainConfigService, {
+          ...makeTestConfig("/unused"),
+          defaultVersions: { hdk: "0.4.2", hdi: "0.5.1" },
+        }))
+      )
+    )
+  )
+
+describe("Markdown documentation output", () => {
+  it("should keep headings, lists, tables, links and code blocks from developer guides", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const { content } = yield* docService.fetchDocumentationPage(guideUrl)
+
+      expect(content).toContain("# Entries")
+      expect(content).toContain("## Define an entry type")
+      expect(content).toContain(
+        "An **entry** is a piece of data on the source chain. See the [source chain](https://developer.holochain.org/concepts/3_source_chain/) concept."
+      )
+      expect(content).toContain("- Derive `EntryDefRegistration`\n- Mark it with `#[hdk_entry_helper]`\n\n  1. Nested step")
+      expect(content).toContain("```rust\n#[hdk_entry_helper]\npub struct Movie {\n    pub title: String,\n}\n```")
+      expect(content).toContain("| Action | Function |\n| --- | --- |\n| Create | `create_entry` |")
+      expect(content).not.toContain("Get Started")
+      expect(content).not.toContain("Copyright")
+    })))
+  )
+
+  it("should render docs.rs pages without rustdoc chrome", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const { content } = yield* docService.fetchDocumentationPage(functionUrl)
+
+      expect(content).toContain("```rust\npub fn create_entry<I, E>(input: I) -> ExternResult<ActionHash>\n```")
+      expect(content).toContain("## Examples {#examples}")
+      expect(content).toContain(
+        "```rust\nlet hash = create_entry(&EntryTypes::Movie(movie))?;\nif hash.is_empty() {\n    return Err(wasm_error!(\"empty\"));\n}\n```"
+      )
+      expect(content).not.toMatch(/Source|Expand description|§|In hdk::entry/)
+    })))
+  )
+})
@@ -0,0 +1,76 @@
+import { Effect, Exit, Layer, Option } from "effect"
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { runTest } from "../setup.js"
+import {
+  HolochainConfigService,
+  HttpServiceTag,
+  HttpServiceLive,
+  PageCacheTag,
+  PageCacheLive,
+  SearchIndexLive,
+  type HolochainConfig,
+} from "../../index.js"
+import { MockResponses } from "../fixtures/mock-http-responses.js"
+import { makeTestConfig } from "../unit/test-utils.js"
+
+describe("Offline Mirror Mode", () => {
+  let mirror: string
+  let config: HolochainConfig
+
+  const validationUrl = "https://developer.holochain.org/concepts/7_validation"
+
+  const withOfflineServices = <A, E>(
+    program: Effect.Effect<A, E, typeof HttpServiceTag.Service | typeof PageCacheTag.Service>
+  ) =>
+    program.pipe(
+      Effect.provide(
+        HttpServiceLive.pipe(
+          Layer.provideMerge(Layer.merge(PageCacheLive, SearchIndexLive)),
+          Layer.provide(Layer.succeed(HolochainConfigService, config))
+        )
+      )
+    )
+
+  beforeEach(async () => {
+    mirror = mkdtempSync(join(tmpdir(), "holochain-mcp-mirror-"))
+    // A TTL of zero proves offline mode ignores freshness entirely
+    config = { ...makeTestConfig(mirror, { ttl: 0 }), offlineMirror: Option.some(mirror) }
+
+    await runTest(
+      Effect.gen(function* () {
+        const cache = yield* PageCacheTag
+        yield* cache.set(validationUrl, MockResponses.VALIDATION_PAGE, { source: "puppeteer" })
+      }).pipe(Effect.provide(PageCacheLive.pipe(Layer.provide(Layer.succeed(HolochainConfigService, config)))))
+    )
+  })
+
+  afterEach(() => {
+    rmSync(mirror, { recursive: true, force: true })
+  })
+
+  it("should serve mirrored pages without a network or browser", () =>
+    runTest(withOfflineServices(Effect.gen(function* () {
+      const http = yield* HttpServiceTag
+      const content = yield* http.fetchPage(validationUrl)
+
+      expect(content).toBe(MockResponses.VALIDATION_PAGE)
+    })))
+  )
+
+  it("should fail with NotFoundError for pages missing from the mirror", () =>
+    runTest(withOfflineServices(Effect.gen(function* () {
+      const http = yield* HttpServiceTag
+      const exit = yield* Effect.exit(http.fetchPage("https://docs.rs/hdk/latest/hdk/fn.missing.html"))
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("NotFoundError")
+        expect(exit.cause.error.message).toContain(`offline mirror ${mirror}`)
+        expect(exit.cause.error.message).toContain("fn.missing.html")
+      }
+    })))
+  )
+})
@@ -0,0 +1,123 @@
+import { Clock, Effect, Layer, Schedule } from "effect"
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { createServer, type Server } from "http"
+import type { AddressInfo } from "net"
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { runTest } from "../setup.js"
+import {
+  HolochainConfigService,
+  HttpServiceTag,
+  HttpServiceLive,
+  PageCacheTag,
+  PageCacheLive,
+  SearchIndexLive,
+  makeResourceSubscriptions,
+  type HolochainConfig,
+} from "../../index.js"
+import { makeTestConfig } from "../unit/test-utils.js"
+import { MockResponses } from "../fixtures/mock-http-responses.js"
+
+const startSiteServer = (site: { page: string }) =>
+  new Promise<Server>((resolve) => {
+    const server = createServer((_req, res) => {
+      res.writeHead(200, { "Content-Type": "text/html" })
+      res.end(site.page)
+    })
+    server.listen(0, "127.0.0.1", () => resolve(server))
+  })
+
+describe("Resource subscriptions", () => {
+  let directory: string
+  let server: Server
+  let config: HolochainConfig
+  let site: { page: string }
+
+  // Revalidation waits out the cache TTL, so the test clock is replaced
+  const withServices = <A, E>(
+    program: Effect.Effect<
+      A,
+      E,
+      | typeof HolochainConfigService.Service
+      | typeof HttpServiceTag.Service
+      | typeof PageCacheTag.Service
+    >
+  ) =>
+    program.pipe(
+      Effect.provide(
+        HttpServiceLive.pipe(
+          Layer.provideMerge(Layer.merge(PageCacheLive, SearchIndexLive)),
+          Layer.provideMerge(Layer.succeed(HolochainConfigService, config))
+        )
+      ),
+      Effect.withClock(Clock.make())
+    )
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), "holochain-mcp-subscriptions-"))
+    site = { page: MockResponses.VALIDATION_PAGE }
+    server = await startSiteServer(site)
+    const base = makeTestConfig(directory, { ttl: 100 })
+    config = {
+      ...base,
+      baseUrls: { ...base.baseUrls, developer: `http://127.0.0.1:${(server.address() as AddressInfo).port}` },
+    }
+  })
+
+  afterEach(async () => {
+    server.closeAllConnections()
+    await new Promise((resolve) => server.close(resolve))
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("should notify subscribers when a page changes upstream without being requested", () =>
+    runTest(withServices(Effect.scoped(Effect.gen(function* () {
+      const http = yield* HttpServiceTag
+      const notified: string[] = []
+      const subscriptions = yield* makeResourceSubscriptions(async (uri) => {
+        notified.push(uri)
+      })
+      const url = `${config.baseUrls.developer}/concepts/7_validation`
+      yield* http.fetchPage(url)
+      yield* subscriptions.subscribe("holochain://guide/concepts/7_validation", url)
+
+      site.page = MockResponses.VALIDATION_PAGE.replace(
+        "</body>",
+        "<p>Validation callbacks now run on every authority.</p></body>"
+      )
+
+      const changed = yield* Effect.suspend(() =>
+        notified.length > 0 ? Effect.succeed(true) : Effect.fail("not notified yet")
+      ).pipe(
+        Effect.retry(Schedule.spaced("20 millis").pipe(Schedule.upTo("5 seconds"))),
+        Effect.orElseSucceed(() => false)
+      )
+
+      expect(changed).toBe(true)
+      expect(notified).toEqual(["holochain://guide/concepts/7_validation"])
+    }))))
+  )
+
+  it("should stop revalidating a page once unsubscribed", () =>
+    runTest(withServices(Effect.scoped(Effect.gen(function* () {
+      const http = yield* HttpServiceTag
+      const notified: string[] = []
+      const subscriptions = yield* makeResourceSubscriptions(async (uri) => {
+        notified.push(uri)
+      })
+      const url = `${config.baseUrls.developer}/concepts/7_validation`
+      yield* http.fetchPage(url)
+      yield* subscriptions.subscribe("holochain://guide/concepts/7_validation", url)
+      yield* subscriptions.unsubscribe("holochain://guide/concepts/7_validation")
+
+      site.page = MockResponses.VALIDATION_PAGE.replace(
+        "</body>",
+        "<p>Validation callbacks now run on every authority.</p></body>"
+      )
+      yield* Effect.sleep("300 millis")
+
+      expect(notified).toEqual([])
+    }))))
+  )
+})
@@ -0,0 +1,222 @@
+import { Effect, Layer } from "effect"
+import { describe, it, expect, beforeEach } from "vitest"
+import { runTest } from "../setup.js"
+import {
+  FetchError,
+  HolochainConfigService,
+  HolochainDocServiceTag,
+  HolochainDocServiceLive,
+  HttpServiceTag,
+  SearchIndexLive,
+  SiteCrawlerLive,
+} from "../../index.js"
+import { makeTestConfig } from "../unit/test-utils.js"
+
+// rustdoc embeds the index as JSON inside a single-quoted JS string
+const searchIndexJs = (wrapper: "map" | "object", data: unknown) => {
+  const literal = JSON.stringify(data).replace(/\\/g, "\\\\").replace(/'/g, "\\'")
+  return wrapper === "map"
+    ? `var searchIndex = new Map(JSON.parse('${literal}'));\nif (typeof exports !== 'undefined') exports.searchIndex = searchIndex;`
+    : `var searchIndex = JSON.parse('${literal}');\nif (typeof exports !== 'undefined') exports.searchIndex = searchIndex;`
+}
+
+const crateRoot = (variables: string) => `
+  <html>
+    <head><title>hdk - Rust</title></head>
+    <body><div id="rustdoc-vars" ${variables}></div><section id="main-content">Crate docs</section></body>
+  </html>
+`
+
+const pages: Record<string, string> = {
+  "https://docs.rs/hdk/0.4.2/hdk/index.html": crateRoot(
+    `data-root-path="../" data-search-index-js="search-index-20240801.js"`
+  ),
+  // Current rustdoc: a Map of crates, item types as letters, sparse paths
+  "https://docs.rs/hdk/0.4.2/search-index-20240801.js": searchIndexJs("map", [
+    ["hdk", {
+      t: "CHHNFIX",
+      n: ["entry", "create_entry", "get", "into_inner", "ActionHash", "ExternResult", "hdk_extern"],
+      q: [[0, "hdk"], [1, "hdk::entry"], [4, "hdk::prelude"], [6, "hdk"]],
+      d: ["Entry functions", "Create an app entry's action", "Get a record", "", "", "", ""],
+    }],
+  ]),
+  "https://docs.rs/hdi/0.5.1/hdi/index.html": crateRoot(`data-root-path="../" data-resource-suffix="-1.70.0"`),
+  // Older rustdoc: an object of crates with one path per item
+  "https://docs.rs/hdi/0.5.1/search-index-1.70.0.js": searchIndexJs("object", {
+    hdi: {
+      t: "HHF",
+      n: ["must_get_entry", "must_get_action", "EntryDefIndex"],
+      q: ["hdi::entry", "", "hdi::prelude"],
+    },
+  }),
+  "https://docs.rs/hdk/0.4.2/hdk/prelude/struct.ActionHash.html": `
+    <html><body><section id="main-content">
+      <pre class="rust item-decl"><code>pub struct ActionHash(/* private fields */);</code></pre>
+      <details class="toggle top-doc" open><summary></summary>
+        <div class="docblock"><p>The hash of an action.</p><h2 id="examples">Examples</h2><pre><code>let hash = ActionHash::from_raw_36(bytes);</code></pre></div>
+      </details>
+    </section></body></html>
+  `,
+  "https://docs.rs/hdk/0.4.2/hdk/attr.hdk_extern.html": `
+    <html><body><section id="main-content">
+      <pre class="rust item-decl"><code>#[hdk_extern]</code></pre>
+      <details class="toggle top-doc" open><summary></summary>
+        <div class="docblock"><p>Exposes a function to the conductor.</p></div>
+      </details>
+    </section></body></html>
+  `,
+  "https://docs.rs/hdi/0.5.1/hdi/prelude/struct.EntryDefIndex.html": `
+    <html><body><section id="main-content">
+      <pre class="rust item-decl"><code>pub struct EntryDefIndex(pub u8);</code></pre>
+      <div class="docblock"><p>The index of an entry type in the DNA.</p></div>
+    </section></body></html>
+  `,
+}
+
+describe("rustdoc search-index.js", () => {
+  let requested: string[]
+
+  const withDocService = <A, E>(program: Effect.Effect<A, E, typeof HolochainDocServiceTag.Service>) =>
+    program.pipe(
+      Effect.provide(
+        HolochainDocServiceLive.pipe(
+          Layer.provide(SiteCrawlerLive),
+          Layer.provide(
+            Layer.succeed(HttpServiceTag, {
+              fetchPage: (url: string) => {
+                requested.push(url)
+                return pages[url] !== undefined
+                  ? Effect.succeed(pages[url])
+                  : Effect.fail(new FetchError({ message: `No fixture for ${url}` }))
+              },
+            })
+          ),
+          Layer.provide(SearchIndexLive),
+          Layer.provide(Layer.succeed(HolochainConfigService, {
+            ...makeTestConfig("/unused"),
+            defaultVersions: { hdk: "0.4.2", hdi: "0.5.1" },
+          }))
+        )
+      )
+    )
+
+  beforeEach(() => {
+    requested = []
+  })
+
+  it("should list typed items with their module paths", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const items = yield* docService.listRustItems("hdk")
+
+      expect(items.map((item) => [item.kind, item.modulePath, item.name])).toEqual([
+        ["mod", "hdk", "entry"],
+        ["fn", "hdk::entry", "create_entry"],
+        ["fn", "hdk::entry", "get"],
+        ["struct", "hdk::prelude", "ActionHash"],
+        ["type", "hdk::prelude", "ExternResult"],
+        ["attr", "hdk", "hdk_extern"],
+      ])
+      expect(items.find((item) => item.name === "entry")?.url).toBe("https://docs.rs/hdk/0.4.2/hdk/entry/index.html")
+      expect(items.find((item) => item.name === "ActionHash")?.url).toBe(
+        "https://docs.rs/hdk/0.4.2/hdk/prelude/struct.ActionHash.html"
+      )
+      expect(items.find((item) => item.name === "create_entry")?.description).toBe("Create an app entry's action")
+    })))
+  )
+
+  it("should read the older object format with one path per item", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const items = yield* docService.listRustItems("hdi")
+
+      expect(items.map((item) => item.url)).toEqual([
+        "https://docs.rs/hdi/0.5.1/hdi/entry/fn.must_get_entry.html",
+        "https://docs.rs/hdi/0.5.1/hdi/entry/fn.must_get_action.html",
+        "https://docs.rs/hdi/0.5.1/hdi/prelude/struct.EntryDefIndex.html",
+      ])
+    })))
+  )
+
+  it("should discover HDK functions from the search index only", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const functions = yield* docService.discoverHDKFunctions()
+
+      expect(functions).toEqual([
+        { name: "create_entry", url: "https://docs.rs/hdk/0.4.2/hdk/entry/fn.create_entry.html" },
+        { name: "get", url: "https://docs.rs/hdk/0.4.2/hdk/entry/fn.get.html" },
+      ])
+    })))
+  )
+
+  it("should rank exact item matches first when searching", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const results = yield* docService.searchRustDocs("create entry", "hdk")
+
+      expect(results[0]?.url).toBe("https://docs.rs/hdk/0.4.2/hdk/entry/fn.create_entry.html")
+      expect(results[0]?.title).toBe("fn hdk::entry::create_entry")
+      expect(requested).toContain("https://docs.rs/hdk/0.4.2/search-index-20240801.js")
+    })))
+  )
+
+  it("should score item and full-text matches on one scale", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const results = yield* docService.searchRustDocs("create entry", "hdk")
+
+      expect(results[0]?.score).toBe(1)
+      results.forEach((result) => {
+        expect(result.score).toBeGreaterThan(0)
+        expect(result.score).toBeLessThanOrEqual(1)
+      })
+    })))
+  )
+
+  describe("getRustItemDocs", () => {
+    it("should return the kind, full path and docs of a struct", () =>
+      runTest(withDocService(Effect.gen(function* () {
+        const docService = yield* HolochainDocServiceTag
+        const docs = yield* docService.getRustItemDocs("ActionHash")
+
+        expect(docs.crate).toBe("hdk")
+        expect(docs.version).toBe("0.4.2")
+        expect(docs.item.kind).toBe("struct")
+        expect(`${docs.item.modulePath}::${docs.item.name}`).toBe("hdk::prelude::ActionHash")
+        expect(docs.page.signature).toBe("pub struct ActionHash(/* private fields */);")
+        expect(docs.page.summary).toBe("The hash of an action.")
+        expect(docs.page.sections.map((section) => section.heading)).toEqual(["Examples"])
+      })))
+    )
+
+    it("should resolve attribute macros written as used in code", () =>
+      runTest(withDocService(Effect.gen(function* () {
+        const docService = yield* HolochainDocServiceTag
+        const docs = yield* docService.getRustItemDocs("#[hdk_extern]", { kind: "macro" })
+
+        expect(docs.item.kind).toBe("attr")
+        expect(docs.page.url).toBe("https://docs.rs/hdk/0.4.2/hdk/attr.hdk_extern.html")
+      })))
+    )
+
+    it("should find items that only exist in the HDI", () =>
+      runTest(withDocService(Effect.gen(function* () {
+        const docService = yield* HolochainDocServiceTag
+        const docs = yield* docService.getRustItemDocs("hdi::prelude::EntryDefIndex")
+
+        expect(docs.crate).toBe("hdi")
+        expect(docs.page.summary).toBe("The index of an entry type in the DNA.")
+      })))
+    )
+
+    it("should fail when no item of the requested kind matches", () =>
+      runTest(withDocService(Effect.gen(function* () {
+        const docService = yield* HolochainDocServiceTag
+        const error = yield* Effect.flip(docService.getRustItemDocs("ActionHash", { kind: "enum" }))
+
+        expect(error._tag).toBe("NotFoundError")
+      })))
+    )
+  })
+})
@@ -0,0 +1,109 @@
+import { Effect, Layer } from "effect"
+import { describe, it, expect } from "vitest"
+import { runTest } from "../setup.js"
+import {
+  FetchError,
+  HolochainConfigService,
+  HolochainDocServiceTag,
+  HolochainDocServiceLive,
+  HttpServiceTag,
+  SearchIndexLive,
+  SiteCrawlerLive,
+} from "../../index.js"
+import { makeTestConfig } from "../unit/test-utils.js"
+
+const searchIndexJs = (data: unknown) =>
+  `var searchIndex = new Map(JSON.parse('${JSON.stringify(data).replace(/'/g, "\\'")}'));`
+
+// Trimmed from the docs.rs page of hdk::entry::create_entry
+const createEntryPage = `
+  <html>
+    <head><title>create_entry in hdk::entry - Rust</title></head>
+    <body><section id="main-content">
+      <h1 class="fqn">Function <a href="index.html">hdk::entry</a>::<a class="fn">create_entry</a></h1>
+      <pre class="rust item-decl"><code>pub fn create_entry&lt;I, E, E2&gt;(input: I) -&gt; <a>ExternResult</a>&lt;<a>ActionHash</a>&gt;<span class="where fmt-newline">
+where
+    <a>ScopedEntryDefIndex</a>: for&lt;'a&gt; <a>TryFrom</a>&lt;&amp;'a I, Error = E2&gt;,
+    <a>WasmError</a>: <a>From</a>&lt;E&gt; + <a>From</a>&lt;E2&gt;,</span></code></pre>
+      <details class="toggle top-doc" open><summary></summary>
+        <div class="docblock">
+          <p>Create an app entry.   Also see <code>create</code>.</p>
+          <h2 id="examples"><a class="doc-anchor" href="#examples">§</a>Examples</h2>
+          <div class="example-wrap"><pre class="rust rust-example-rendered"><code>#[hdk_extern]
+fn create(foo: Foo) -&gt; ExternResult&lt;ActionHash&gt; {
+    create_entry(&amp;EntryTypes::Foo(foo))
+}</code></pre></div>
+          <h2 id="errors"><a class="doc-anchor" href="#errors">§</a>Errors</h2>
+          <p>Fails when the entry does not pass validation.</p>
+          <h2 id="panics"><a class="doc-anchor" href="#panics">§</a>Panics</h2>
+          <div class="example-wrap"><pre class="language-text"><code>host panicked</code></pre></div>
+        </div>
+      </details>
+    </section></body>
+  </html>
+`
+
+const pages: Record<string, string> = {
+  "https://docs.rs/hdk/0.4.2/hdk/index.html": `
+    <html><body><div id="rustdoc-vars" data-root-path="../" data-search-index-js="search-index.js"></div></body></html>
+  `,
+  "https://docs.rs/hdk/0.4.2/search-index.js": searchIndexJs([
+    ["hdk", { t: "H", n: ["create_entry"], q: [[0, "hdk::entry"]] }],
+  ]),
+  "https://docs.rs/hdk/0.4.2/hdk/entry/fn.create_entry.html": createEntryPage,
+}
+
+const withDocService = <A, E>(program: Effect.Effect<A, E, typeof HolochainDocServiceTag.Service>) =>
+  program.pipe(
+    Effect.provide(
+      HolochainDocServiceLive.pipe(
+        Layer.provide(SiteCrawlerLive),
+        Layer.provide(
+          Layer.succeed(HttpServiceTag, {
+            fetchPage: (url: string) =>
+              pages[url] !== undefined
+                ? Effect.succeed(pages[url])
+                : Effect.fail(new FetchError({ message: `No fixture for ${url}` })),
+          })
+        ),
+        Layer.provide(SearchIndexLive),
+        Layer.provide(Layer.succeed(HolochainConfigService, {
+          ...makeTestConfig("/unused"),
+          defaultVersions: { hdk: "0.4.2", hdi: "0.5.1" },
+        }))
+      )
+    )
+  )
+
+describe("Structured rustdoc extraction", () => {
+  it("should split a function declaration into generics, bounds, parameters and return type", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const { page } = yield* docService.getFunctionDocs("hdk", "create_entry")
+
+      expect(page.path).toBe("hdk::entry::create_entry")
+      expect(page.signature.split("\n")[0]).toBe("pub fn create_entry<I, E, E2>(input: I) -> ExternResult<ActionHash>")
+      expect(page.generics).toEqual(["I", "E", "E2"])
+      expect(page.whereBounds).toEqual([
+        "ScopedEntryDefIndex: for<'a> TryFrom<&'a I, Error = E2>",
+        "WasmError: From<E> + From<E2>",
+      ])
+      expect(page.parameters).toEqual([{ name: "input", type: "I" }])
+      expect(page.returnType).toBe("ExternResult<ActionHash>")
+    })))
+  )
+
+  it("should keep doc sections and code examples verbatim", () =>
+    runTest(withDocService(Effect.gen(function* () {
+      const docService = yield* HolochainDocServiceTag
+      const { page } = yield* docService.getFunctionDocs("hdk", "create_entry")
+      const example = "#[hdk_extern]\nfn create(foo: Foo) -> ExternResult<ActionHash> {\n    create_entry(&EntryTypes::Foo(foo))\n}"
+
+      expect(page.summary).toBe("Create an app entry. Also see create.")
+      expect(page.sections.map((section) => section.heading)).toEqual(["Examples", "Errors", "Panics"])
+      expect(page.examples).toEqual([example, "host panicked"])
+      expect(page.sections[0]?.content).toBe("```rust\n" + example + "\n```")
+      expect(page.sections[2]?.content).toBe("```text\nhost panicked\n```")
+    })))
+  )
+})
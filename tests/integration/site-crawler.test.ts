@@ -0,0 +1,131 @@
+import { Effect, Layer } from "effect"
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { mkdtempSync, rmSync, existsSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { runTest } from "../setup.js"
+import {
+  FetchError,
+  HolochainConfigService,
+  HttpServiceTag,
+  SiteCrawlerTag,
+  SiteCrawlerLive,
+} from "../../index.js"
+import { makeTestConfig } from "../unit/test-utils.js"
+
+const developer = "https://developer.holochain.org"
+
+const linkPage = (title: string, hrefs: string[]) => `
+  <html><head><title>${title}</title></head>
+  <body><nav>${hrefs.map((href) => `<a href="${href}">${href}</a>`).join("")}</nav>
+  <div class="main-area"><h1>${title}</h1></div></body></html>
+`
+
+describe("Site crawler", () => {
+  let directory: string
+  let pages: Record<string, string>
+  let requested: string[]
+
+  const withCrawler = <A, E>(program: Effect.Effect<A, E, typeof SiteCrawlerTag.Service>) =>
+    program.pipe(
+      Effect.provide(
+        SiteCrawlerLive.pipe(
+          Layer.provide(
+            Layer.succeed(HttpServiceTag, {
+              fetchPage: (url: string) => {
+                requested.push(url)
+                return pages[url] !== undefined
+                  ? Effect.succeed(pages[url])
+                  : Effect.fail(new FetchError({ message: `No fixture for ${url}` }))
+              },
+            })
+          ),
+          Layer.provide(Layer.succeed(HolochainConfigService, makeTestConfig(directory)))
+        )
+      )
+    )
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "holochain-mcp-crawler-"))
+    requested = []
+    pages = {}
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("should register every page in the sitemap", () =>
+    runTest(withCrawler(Effect.gen(function* () {
+      pages[`${developer}/sitemap.xml`] = `<?xml version="1.0" encoding="UTF-8"?>
+        <sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+          <sitemap><loc>${developer}/sitemap-guides.xml</loc></sitemap>
+        </sitemapindex>`
+      pages[`${developer}/sitemap-guides.xml`] = `<?xml version="1.0" encoding="UTF-8"?>
+        <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+          <url><loc>${developer}/</loc></url>
+          <url><loc>${developer}/build/working-with-data/</loc></url>
+          <url><loc>${developer}/resources/holochain-logo.png</loc></url>
+          <url><loc>https://blog.holochain.org/some-post/</loc></url>
+        </urlset>`
+      const crawler = yield* SiteCrawlerTag
+      const known = yield* crawler.knownPages()
+
+      expect(known.map((page) => [page.path, page.title])).toEqual([
+        ["/", "Home"],
+        ["/build/working-with-data", "Working With Data"],
+      ])
+      expect(known.every((page) => page.lastSeen > 0)).toBe(true)
+    })))
+  )
+
+  it("should follow in-site links up to the depth limit without a sitemap", () =>
+    runTest(withCrawler(Effect.gen(function* () {
+      pages[developer] = linkPage("Holochain Developer Portal", ["/concepts/", "https://github.com/holochain"])
+      pages[`${developer}/concepts`] = linkPage("Concepts", ["/concepts/1_the_basics/#intro", "/"])
+      pages[`${developer}/concepts/1_the_basics`] = linkPage("The Basics", ["/concepts/2_application_architecture/"])
+      pages[`${developer}/concepts/2_application_architecture`] = linkPage("Application Architecture", [])
+      const crawler = yield* SiteCrawlerTag
+      const known = yield* crawler.knownPages()
+
+      expect(known.map((page) => [page.url, page.title])).toEqual([
+        [developer, "Holochain Developer Portal"],
+        [`${developer}/concepts`, "Concepts"],
+        [`${developer}/concepts/1_the_basics`, "The Basics"],
+      ])
+      expect(requested).not.toContain(`${developer}/concepts/2_application_architecture`)
+      expect(requested).not.toContain("https://github.com/holochain")
+    })))
+  )
+
+  it("should use the known pages until a crawl succeeds", () =>
+    runTest(withCrawler(Effect.gen(function* () {
+      const crawler = yield* SiteCrawlerTag
+      const known = yield* crawler.knownPages()
+
+      expect(known.map((page) => page.url)).toContain(`${developer}/concepts/7_validation`)
+      expect(known.find((page) => page.path === "/concepts/4_dht")?.lastSeen).toBe(0)
+    })))
+  )
+
+  it("should persist the registry and reuse it without crawling again", async () => {
+    pages[`${developer}/sitemap.xml`] = `<urlset><url><loc>${developer}/concepts/11_membranes/</loc></url></urlset>`
+
+    await runTest(withCrawler(Effect.gen(function* () {
+      const crawler = yield* SiteCrawlerTag
+      yield* crawler.knownPages()
+    })))
+
+    expect(existsSync(join(directory, "site-pages.json"))).toBe(true)
+    requested = []
+    pages = {}
+
+    await runTest(withCrawler(Effect.gen(function* () {
+      const crawler = yield* SiteCrawlerTag
+      const known = yield* crawler.knownPages()
+
+      expect(known.map((page) => page.title)).toEqual(["Membranes"])
+      expect(requested).toEqual([])
+    })))
+  })
+})
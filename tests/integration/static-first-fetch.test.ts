@@ -0,0 +1,170 @@
+import { Effect, Layer, Option } from "effect"
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { createServer, type Server } from "http"
+import type { AddressInfo } from "net"
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { runTest } from "../setup.js"
+import type { Browser } from "puppeteer"
+import {
+  HolochainConfigService,
+  HttpServiceTag,
+  PageCacheTag,
+  PageCacheLive,
+  SearchIndexTag,
+  SearchIndexLive,
+  makeHttpServiceLive,
+  type HolochainConfig,
+} from "../../index.js"
+import { FakeBrowser, makeTestConfig } from "../unit/test-utils.js"
+
+const staticPage = `
+  <html><head><title>Validation</title></head>
+  <body><div class="main-area">
+    <h1>Validation: Assuring Data Integrity</h1>
+    <p>${"Validation rules decide whether an action is valid. ".repeat(8)}</p>
+  </div></body></html>
+`
+
+// A client-rendered page: the static HTML is only the app shell
+const appShell = `
+  <html><head><title>Holochain</title></head>
+  <body><div id="app"></div><script src="/bundle.js"></script>
+  <noscript>${"This site needs JavaScript to show the documentation. ".repeat(3)}</noscript></body></html>
+`
+
+// The same page once the browser has run its scripts
+const renderedApp = `
+  <html><head><title>Build an app</title></head>
+  <body><div id="app"><div class="main-area">
+    <h1>Build an app</h1>
+    <p>${"Zomes are the modules a hApp is built from. ".repeat(8)}</p>
+  </div></div></body></html>
+`
+
+const sitemap = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://developer.holochain.org/concepts/7_validation/</loc></url>
+</urlset>`
+
+// Local stand-in for developer.holochain.org serving static HTML
+const startSiteServer = (requests: string[]) =>
+  new Promise<Server>((resolve) => {
+    const server = createServer((req, res) => {
+      requests.push(req.url ?? "")
+      const xml = req.url === "/sitemap.xml"
+      res.writeHead(200, { "Content-Type": xml ? "application/xml" : "text/html" })
+      res.end(xml ? sitemap : req.url === "/build/app" ? appShell : staticPage)
+    })
+    server.listen(0, "127.0.0.1", () => resolve(server))
+  })
+
+describe("Static-first developer site fetching", () => {
+  let directory: string
+  let server: Server
+  let config: HolochainConfig
+  let requests: string[]
+  let launchBrowser: () => Promise<Browser>
+
+  const withServices = <A, E>(
+    program: Effect.Effect<
+      A,
+      E,
+      typeof HttpServiceTag.Service | typeof PageCacheTag.Service | typeof SearchIndexTag.Service
+    >
+  ) =>
+    program.pipe(
+      Effect.provide(
+        makeHttpServiceLive(launchBrowser).pipe(
+          Layer.provideMerge(Layer.merge(PageCacheLive, SearchIndexLive)),
+          Layer.provide(Layer.succeed(HolochainConfigService, config))
+        )
+      )
+    )
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), "holochain-mcp-static-"))
+    requests = []
+    launchBrowser = async () => new FakeBrowser(() => renderedApp) as unknown as Browser
+    server = await startSiteServer(requests)
+    const base = makeTestConfig(directory)
+    config = {
+      ...base,
+      baseUrls: { ...base.baseUrls, developer: `http://127.0.0.1:${(server.address() as AddressInfo).port}` },
+    }
+  })
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve))
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("should serve pages with static main content without a browser", () =>
+    runTest(withServices(Effect.gen(function* () {
+      const http = yield* HttpServiceTag
+      const cache = yield* PageCacheTag
+      const url = `${config.baseUrls.developer}/concepts/7_validation`
+
+      const content = yield* http.fetchPage(url)
+      const cached = yield* cache.get(url)
+
+      expect(content).toBe(staticPage)
+      expect(requests).toEqual(["/concepts/7_validation"])
+      expect(Option.map(cached, ({ entry }) => entry.source)).toEqual(Option.some("http"))
+    })))
+  )
+
+  it("should drop pages from the search index when the cache evicts them", () => {
+    config = { ...config, cache: { ...config.cache, maxEntries: 1 } }
+    return runTest(withServices(Effect.gen(function* () {
+      const http = yield* HttpServiceTag
+      const searchIndex = yield* SearchIndexTag
+      yield* http.fetchPage(`${config.baseUrls.developer}/concepts/a`)
+      yield* http.fetchPage(`${config.baseUrls.developer}/concepts/b`)
+      // The index follows the cache from a background fiber
+      yield* Effect.yieldNow()
+
+      const results = yield* searchIndex.search("validation", { urlPrefix: config.baseUrls.developer, limit: 5 })
+      expect(results.map((result) => result.url)).toEqual([`${config.baseUrls.developer}/concepts/b`])
+    })))
+  })
+
+  it("should fetch the sitemap as plain XML", () =>
+    runTest(withServices(Effect.gen(function* () {
+      const http = yield* HttpServiceTag
+      const content = yield* http.fetchPage(`${config.baseUrls.developer}/sitemap.xml`)
+
+      expect(content).toBe(sitemap)
+    })))
+  )
+
+  it("should render app shells in the browser and cache the rendered page", () =>
+    runTest(withServices(Effect.gen(function* () {
+      const http = yield* HttpServiceTag
+      const cache = yield* PageCacheTag
+      const url = `${config.baseUrls.developer}/build/app`
+
+      const content = yield* http.fetchPage(url)
+      const cached = yield* cache.get(url)
+
+      expect(content).toBe(renderedApp)
+      expect(Option.map(cached, ({ entry }) => entry.source)).toEqual(Option.some("puppeteer"))
+    })))
+  )
+
+  it("should serve the app shell uncached when the browser can't launch", () => {
+    launchBrowser = () => Promise.reject(new Error("Could not find Chrome"))
+    return runTest(withServices(Effect.gen(function* () {
+      const http = yield* HttpServiceTag
+      const cache = yield* PageCacheTag
+      const url = `${config.baseUrls.developer}/build/app`
+
+      const content = yield* http.fetchPage(url)
+      const cached = yield* cache.get(url)
+
+      expect(content).toBe(appShell)
+      expect(Option.isNone(cached)).toBe(true)
+    })))
+  })
+})
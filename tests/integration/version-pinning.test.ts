@@ -0,0 +1,158 @@
+import { Effect, Either, Layer } from "effect"
+import { describe, it, expect, beforeEach } from "vitest"
+import { mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { runTest } from "../setup.js"
+import {
+  HolochainConfigService,
+  HolochainDocServiceTag,
+  HolochainDocServiceLive,
+  HttpServiceTag,
+  SearchIndexLive,
+  SiteCrawlerLive,
+  configFromCliOptions,
+  parseCliArgs,
+  pinDocsRsVersion,
+} from "../../index.js"
+import { getMockUrlContent } from "../fixtures/mock-http-responses.js"
+import { makeTestConfig } from "../unit/test-utils.js"
+
+describe("HDK/HDI Version Pinning", () => {
+  const config = { ...makeTestConfig("/unused"), defaultVersions: { hdk: "0.4.1", hdi: "0.5.1" } }
+
+  describe("pinDocsRsVersion", () => {
+    it("should pin 'latest' URLs to the configured default", () => {
+      expect(pinDocsRsVersion(config.baseUrls.docsRs, config.defaultVersions, "https://docs.rs/hdk/latest/hdk/entry/fn.get.html"))
+        .toBe("https://docs.rs/hdk/0.4.1/hdk/entry/fn.get.html")
+      expect(pinDocsRsVersion(config.baseUrls.docsRs, config.defaultVersions, "https://docs.rs/hdi/latest/hdi/index.html"))
+        .toBe("https://docs.rs/hdi/0.5.1/hdi/index.html")
+    })
+
+    it("should keep explicit URL versions unless a version is requested", () => {
+      const url = "https://docs.rs/hdk/0.3.0/hdk/entry/fn.get.html"
+
+      expect(pinDocsRsVersion(config.baseUrls.docsRs, config.defaultVersions, url)).toBe(url)
+      expect(pinDocsRsVersion(config.baseUrls.docsRs, config.defaultVersions, url, "0.4.2")).toBe("https://docs.rs/hdk/0.4.2/hdk/entry/fn.get.html")
+    })
+
+    it("should leave non HDK/HDI URLs untouched", () => {
+      expect(pinDocsRsVersion(config.baseUrls.docsRs, config.defaultVersions, "https://developer.holochain.org/concepts/4_dht", "0.4.2"))
+        .toBe("https://developer.holochain.org/concepts/4_dht")
+      expect(pinDocsRsVersion(config.baseUrls.docsRs, config.defaultVersions, "https://docs.rs/serde/latest/serde/", "1.0.0"))
+        .toBe("https://docs.rs/serde/latest/serde/")
+    })
+
+    it("should pin URLs under a configured docs.rs mirror instead of docs.rs", () => {
+      const mirror = "http://127.0.0.1:8080/docs"
+
+      expect(pinDocsRsVersion(mirror, config.defaultVersions, `${mirror}/hdk/latest/hdk/entry/fn.get.html`))
+        .toBe(`${mirror}/hdk/0.4.1/hdk/entry/fn.get.html`)
+      expect(pinDocsRsVersion(mirror, config.defaultVersions, "https://docs.rs/hdk/latest/hdk/index.html", "0.4.2"))
+        .toBe("https://docs.rs/hdk/latest/hdk/index.html")
+    })
+  })
+
+  describe("Command line defaults", () => {
+    it("should take default versions from --hdk-version and --hdi-version", () => {
+      const options = Either.getOrThrow(parseCliArgs(["--hdk-version", "0.4.2", "--hdi-version", "0.5.2"]))
+
+      expect(configFromCliOptions(options).defaultVersions).toEqual({ hdk: "0.4.2", hdi: "0.5.2" })
+    })
+
+    it("should reject malformed versions", () => {
+      expect(Either.isLeft(parseCliArgs(["--hdk-version", "../../etc"]))).toBe(true)
+    })
+  })
+
+  describe("HolochainDocService", () => {
+    let requested: string[]
+
+    const withDocService = <A, E>(program: Effect.Effect<A, E, typeof HolochainDocServiceTag.Service>) =>
+      program.pipe(
+        Effect.provide(
+          HolochainDocServiceLive.pipe(
+            Layer.provide(SiteCrawlerLive),
+            Layer.provide(
+              Layer.succeed(HttpServiceTag, {
+                fetchPage: (url: string) => {
+                  requested.push(url)
+                  return Effect.succeed(getMockUrlContent(url.replace(/\/hdk\/[^/]+\/hdk\//, "/hdk/latest/hdk/")))
+                },
+              })
+            ),
+            Layer.provide(SearchIndexLive),
+            Layer.provide(Layer.succeed(HolochainConfigService, config))
+          )
+        )
+      )
+
+    beforeEach(() => {
+      requested = []
+    })
+
+    it("should fetch HDK function docs for the requested version", () =>
+      runTest(withDocService(Effect.gen(function* () {
+        const docService = yield* HolochainDocServiceTag
+        const doc = yield* docService.getHDKFunctionDocs("create_entry", "0.4.2")
+
+        expect(doc.url).toBe("https://docs.rs/hdk/0.4.2/hdk/entry/fn.create_entry.html")
+        expect(requested).toContain("https://docs.rs/hdk/0.4.2/hdk/index.html")
+      })))
+    )
+
+    it("should use the configured default version when none is given", () =>
+      runTest(withDocService(Effect.gen(function* () {
+        const docService = yield* HolochainDocServiceTag
+        const doc = yield* docService.getHDKFunctionDocs("create_entry")
+
+        expect(doc.url).toBe("https://docs.rs/hdk/0.4.1/hdk/entry/fn.create_entry.html")
+      })))
+    )
+
+    it("should cache discovered functions per version", () =>
+      runTest(withDocService(Effect.gen(function* () {
+        const docService = yield* HolochainDocServiceTag
+
+        yield* docService.discoverHDKFunctions("0.4.1")
+        const firstDiscovery = requested.length
+        yield* docService.discoverHDKFunctions("0.4.1")
+        expect(requested.length).toBe(firstDiscovery)
+
+        yield* docService.discoverHDKFunctions("0.3.0")
+        expect(new Set(requested.filter((url) => url.endsWith("/index.html")))).toEqual(new Set([
+          "https://docs.rs/hdk/0.4.1/hdk/index.html",
+          "https://docs.rs/hdk/0.3.0/hdk/index.html",
+        ]))
+      })))
+    )
+
+    it("should search module pages of the requested crate version", () =>
+      runTest(withDocService(Effect.gen(function* () {
+        const docService = yield* HolochainDocServiceTag
+        yield* docService.searchRustDocs("entry", "hdi", "0.5.0")
+
+        expect(requested.length).toBeGreaterThan(0)
+        expect(requested.every((url) => url.startsWith("https://docs.rs/hdi/0.5.0/hdi/"))).toBe(true)
+      })))
+    )
+
+    it("should answer from the versions locked in a hApp workspace", () =>
+      runTest(withDocService(Effect.gen(function* () {
+        const workspace = mkdtempSync(join(tmpdir(), "holochain-mcp-workspace-"))
+        writeFileSync(join(workspace, "Cargo.lock"), `[[package]]\nname = "hdk"\nversion = "0.3.6"\n`)
+
+        const docService = yield* HolochainDocServiceTag
+        const versions = yield* docService.useWorkspaceVersions(workspace).pipe(
+          Effect.ensuring(Effect.sync(() => rmSync(workspace, { recursive: true, force: true })))
+        )
+        const doc = yield* docService.getHDKFunctionDocs("create_entry")
+        const page = yield* docService.fetchDocumentationPage("https://docs.rs/hdk/latest/hdk/entry/fn.create_entry.html")
+
+        expect(versions.source).toBe("Cargo.lock")
+        expect(doc.url).toBe("https://docs.rs/hdk/0.3.6/hdk/entry/fn.create_entry.html")
+        expect(page.url).toBe("https://docs.rs/hdk/0.3.6/hdk/entry/fn.create_entry.html")
+      })))
+    )
+  })
+})
@@ -3,6 +3,22 @@ import { describe, it, expect } from "vitest"
 import { runTest } from "../setup.js"
 import { parseHdkIndex } from "../unit/test-utils.js"
 
+const moduleIndexHtml = `
+  <html>
+    <body>
+      <a href="entry/fn.create_entry.html">create_entry</a>
+      <a href="entry/fn.get.html">get</a>
+      <a href="entry/fn.update_entry.html">update_entry</a>
+      <a href="link/fn.create_link.html">create_link</a>
+      <a href="link/fn.get_links.html">get_links</a>
+      <a href="agent/fn.agent_info.html">agent_info</a>
+      <a href="p2p/fn.call.html">call</a>
+      <a href="p2p/fn.call_remote.html">call_remote</a>
+      <a href="hash/fn.hash.html">hash</a>
+    </body>
+  </html>
+`
+
 describe("HDK Function Lookup Failures (Real-World Issues)", () => {
   describe("URL Construction Problems", () => {
     it("should detect incorrect URL patterns that cause 404s", () =>
@@ -40,7 +56,10 @@ describe("HDK Function Lookup Failures (Real-World Issues)", () => {
     it("should handle the wrong URL pattern that causes failures", () =>
       runTest(Effect.gen(function* () {
         // This tests the WRONG pattern that our current code generates
-        const functions = yield* parseHdkIndex("<html><body></body></html>", "https://docs.rs/hdk/latest/hdk")
+        const functions = yield* parseHdkIndex(
+          `<html><body><a href="entry/fn.create_entry.html">create_entry</a></body></html>`,
+          "https://docs.rs/hdk/latest/hdk"
+        )
         
         const createEntry = functions.find(f => f.name === "create_entry")
         
@@ -84,18 +103,15 @@ describe("HDK Function Lookup Failures (Real-World Issues)", () => {
       }))
     )
     
-    it("should detect when function lookup will fail due to missing module info", () =>
+    it("should fail instead of guessing functions when the index links none", () =>
       runTest(Effect.gen(function* () {
-        // Test functions that exist but might not be in our fallback list
-        const functions = yield* parseHdkIndex("<html><body></body></html>", "https://docs.rs/hdk/latest/hdk")
-        
-        // These should all be in our fallback, but let's verify
-        const criticalFunctions = ["create_entry", "get_links", "agent_info", "call", "hash"]
+        // Guessed URLs may not exist for the requested version, so an index
+        // without function links is reported rather than padded
+        const error = yield* Effect.flip(
+          parseHdkIndex("<html><body></body></html>", "https://docs.rs/hdk/latest/hdk")
+        )
         
-        criticalFunctions.forEach(funcName => {
-          const found = functions.find(f => f.name === funcName)
-          expect(found, `Critical function ${funcName} should be in fallback list`).toBeDefined()
-        })
+        expect(error._tag).toBe("ParseError")
       }))
     )
   })
@@ -103,7 +119,7 @@ describe("HDK Function Lookup Failures (Real-World Issues)", () => {
   describe("Module-Specific URL Patterns", () => {
     it("should correctly map functions to their modules", () =>
       runTest(Effect.gen(function* () {
-        const functions = yield* parseHdkIndex("<html><body></body></html>", "https://docs.rs/hdk/latest/hdk")
+        const functions = yield* parseHdkIndex(moduleIndexHtml, "https://docs.rs/hdk/latest/hdk")
         
         // Verify module mappings are correct
         const entryFunctions = functions.filter(f => f.url.includes("/entry/"))
@@ -134,7 +150,7 @@ describe("HDK Function Lookup Failures (Real-World Issues)", () => {
           "hash"
         ]
         
-        const functions = yield* parseHdkIndex("<html><body></body></html>", "https://docs.rs/hdk/latest/hdk")
+        const functions = yield* parseHdkIndex(moduleIndexHtml, "https://docs.rs/hdk/latest/hdk")
         
         failedFunctions.forEach(funcName => {
           const func = functions.find(f => f.name === funcName)
@@ -0,0 +1,135 @@
+import { Effect, TestClock } from "effect"
+import { describe, it, expect, beforeEach } from "vitest"
+import type { Browser } from "puppeteer"
+import { runTest } from "../setup.js"
+import { isBlockedRequest, makeBrowserPool, type HolochainConfig } from "../../index.js"
+import { FakeBrowser, makeTestConfig } from "./test-utils.js"
+
+describe("Browser request blocking", () => {
+  it("should block images, fonts and media", () => {
+    expect(isBlockedRequest("image", "https://developer.holochain.org/assets/logo.png")).toBe(true)
+    expect(isBlockedRequest("font", "https://fonts.gstatic.com/s/inter.woff2")).toBe(true)
+    expect(isBlockedRequest("media", "https://developer.holochain.org/intro.mp4")).toBe(true)
+  })
+
+  it("should block analytics hosts and their subdomains", () => {
+    expect(isBlockedRequest("script", "https://www.googletagmanager.com/gtag/js?id=G-1")).toBe(true)
+    expect(isBlockedRequest("xhr", "https://plausible.io/api/event")).toBe(true)
+  })
+
+  it("should let documents, scripts and styles through", () => {
+    expect(isBlockedRequest("document", "https://developer.holochain.org/concepts/7_validation/")).toBe(false)
+    expect(isBlockedRequest("script", "https://developer.holochain.org/scripts/main.js")).toBe(false)
+    expect(isBlockedRequest("stylesheet", "https://developer.holochain.org/styles/site.css")).toBe(false)
+    expect(isBlockedRequest("script", "https://notgoogle-analytics.com/x.js")).toBe(false)
+  })
+})
+
+describe("Browser page pool", () => {
+  let launched: FakeBrowser[]
+
+  const launcher = async () => {
+    const browser = new FakeBrowser()
+    launched.push(browser)
+    return browser as unknown as Browser
+  }
+
+  const config = (browser: Partial<HolochainConfig["browser"]> = {}): HolochainConfig => {
+    const base = makeTestConfig("/unused")
+    return { ...base, browser: { ...base.browser, ...browser } }
+  }
+
+  beforeEach(() => {
+    launched = []
+  })
+
+  it("should render at most maxPages pages at once and queue the rest", () =>
+    runTest(Effect.scoped(Effect.gen(function* () {
+      const pool = yield* makeBrowserPool(config({ maxPages: 2 }), launcher)
+      const contents = yield* Effect.forEach(
+        ["/a", "/b", "/c", "/d"],
+        (path) => pool.render(`https://developer.holochain.org${path}`),
+        { concurrency: "unbounded" }
+      )
+
+      expect(contents).toHaveLength(4)
+      expect(launched).toHaveLength(1)
+      expect(launched[0]?.maxInFlight).toBe(2)
+      expect(launched[0]?.pages).toHaveLength(2)
+    })))
+  )
+
+  it("should reuse tabs between navigations", () =>
+    runTest(Effect.scoped(Effect.gen(function* () {
+      const pool = yield* makeBrowserPool(config(), launcher)
+      yield* pool.render("https://developer.holochain.org/a")
+      const content = yield* pool.render("https://developer.holochain.org/b")
+
+      expect(content).toContain("https://developer.holochain.org/b")
+      expect(launched[0]?.pages).toHaveLength(1)
+      expect(launched[0]?.pages[0]?.gotos).toHaveLength(2)
+    })))
+  )
+
+  it("should recycle the browser after recycleAfter navigations", () =>
+    runTest(Effect.scoped(Effect.gen(function* () {
+      const pool = yield* makeBrowserPool(config({ recycleAfter: 2 }), launcher)
+      for (const path of ["/a", "/b", "/c"]) {
+        yield* pool.render(`https://developer.holochain.org${path}`)
+      }
+
+      expect(launched).toHaveLength(2)
+      expect(launched[0]?.closed).toBe(true)
+      expect(launched[1]?.closed).toBe(false)
+    })))
+  )
+
+  it("should relaunch after the browser disconnects and forget the dead one", async () => {
+    await runTest(Effect.scoped(Effect.gen(function* () {
+      const pool = yield* makeBrowserPool(config(), launcher)
+      yield* pool.render("https://developer.holochain.org/a")
+      launched[0]?.crash()
+      yield* pool.render("https://developer.holochain.org/b")
+
+      expect(launched).toHaveLength(2)
+      expect(launched[1]?.pages[0]?.gotos).toEqual(["https://developer.holochain.org/b"])
+    })))
+
+    // Closing the pool leaves the disconnected browser alone
+    expect(launched[0]?.closed).toBe(false)
+    expect(launched[1]?.closed).toBe(true)
+  })
+
+  it("should remember a failed launch instead of retrying it", () =>
+    runTest(Effect.scoped(Effect.gen(function* () {
+      let attempts = 0
+      const pool = yield* makeBrowserPool(config(), async () => {
+        attempts++
+        throw new Error("Could not find Chrome")
+      })
+      const first = yield* Effect.flip(pool.render("https://developer.holochain.org/a"))
+      const second = yield* Effect.flip(pool.render("https://developer.holochain.org/b"))
+
+      expect(first._tag).toBe("BrowserError")
+      expect(second).toBe(first)
+      expect(attempts).toBe(1)
+    })))
+  )
+
+  it("should try launching again once the failure has expired", () =>
+    runTest(Effect.scoped(Effect.gen(function* () {
+      let attempts = 0
+      const pool = yield* makeBrowserPool(config(), async () => {
+        attempts++
+        if (attempts === 1) throw new Error("Failed to launch the browser process")
+        return new FakeBrowser() as unknown as Browser
+      })
+      yield* Effect.flip(pool.render("https://developer.holochain.org/a"))
+      yield* TestClock.adjust("5 minutes")
+      const html = yield* pool.render("https://developer.holochain.org/b")
+
+      expect(html).toContain("https://developer.holochain.org/b")
+      expect(attempts).toBe(2)
+    })))
+  )
+})
@@ -0,0 +1,161 @@
+import { Effect, Exit, Option } from "effect"
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { NodeFileSystem } from "@effect/platform-node"
+import { runTest } from "../setup.js"
+import {
+  parseCargoLock,
+  parseCargoManifest,
+  detectWorkspaceVersions,
+} from "../../index.js"
+
+const CARGO_LOCK = `
+# This file is automatically @generated by Cargo.
+version = 3
+
+[[package]]
+name = "hdi"
+version = "0.5.2"
+source = "registry+https://github.com/rust-lang/crates.io-index"
+
+[[package]]
+name = "hdk"
+version = "0.4.2"
+source = "registry+https://github.com/rust-lang/crates.io-index"
+dependencies = [
+ "hdi",
+]
+
+[[package]]
+name = "hdk"
+version = "0.3.6"
+
+[[package]]
+name = "holochain"
+version = "0.4.1"
+
+[[package]]
+name = "serde"
+version = "1.0.210"
+`
+
+const CARGO_TOML = `
+[workspace]
+members = ["dnas/*/zomes/coordinator/*", "dnas/*/zomes/integrity/*"]
+
+[workspace.dependencies]
+hdi = "=0.5.2"
+hdk = { version = "0.4.2", default-features = false } # pinned for the 0.4 series
+serde = "1.0"
+
+[workspace.dependencies.holochain]
+version = "0.4.1"
+features = ["test_utils"]
+`
+
+describe("Cargo Workspace Versions", () => {
+  describe("parseCargoLock", () => {
+    it("should report the newest locked version of each Holochain crate", () => {
+      const versions = parseCargoLock(CARGO_LOCK)
+
+      expect(versions.hdk).toEqual(Option.some("0.4.2"))
+      expect(versions.hdi).toEqual(Option.some("0.5.2"))
+      expect(versions.holochain).toEqual(Option.some("0.4.1"))
+    })
+
+    it("should return none for crates that are not locked", () => {
+      const versions = parseCargoLock(`[[package]]\nname = "serde"\nversion = "1.0.0"\n`)
+
+      expect(Option.isNone(versions.hdk)).toBe(true)
+      expect(Option.isNone(versions.hdi)).toBe(true)
+    })
+  })
+
+  describe("parseCargoManifest", () => {
+    it("should read inline, table and exact requirements", () => {
+      const versions = parseCargoManifest(CARGO_TOML)
+
+      expect(versions.hdk).toEqual(Option.some("0.4.2"))
+      expect(versions.hdi).toEqual(Option.some("0.5.2"))
+      expect(versions.holochain).toEqual(Option.some("0.4.1"))
+    })
+
+    it("should ignore workspace references and unsupported ranges", () => {
+      const versions = parseCargoManifest(`
+        [dependencies]
+        hdk = { workspace = true }
+        hdi = ">=0.5, <0.6"
+      `)
+
+      expect(Option.isNone(versions.hdk)).toBe(true)
+      expect(Option.isNone(versions.hdi)).toBe(true)
+    })
+  })
+
+  describe("detectWorkspaceVersions", () => {
+    let workspace: string
+
+    beforeEach(() => {
+      workspace = mkdtempSync(join(tmpdir(), "holochain-mcp-workspace-"))
+    })
+
+    afterEach(() => {
+      rmSync(workspace, { recursive: true, force: true })
+    })
+
+    const detect = (path: string) =>
+      detectWorkspaceVersions(path).pipe(Effect.provide(NodeFileSystem.layer))
+
+    it("should prefer resolved versions from Cargo.lock", () =>
+      runTest(Effect.gen(function* () {
+        writeFileSync(join(workspace, "Cargo.toml"), `[workspace.dependencies]\nhdk = "0.4"\n`)
+        writeFileSync(join(workspace, "Cargo.lock"), CARGO_LOCK)
+
+        const versions = yield* detect(join(workspace, "Cargo.toml"))
+
+        expect(versions.workspace).toBe(workspace)
+        expect(versions.source).toBe("Cargo.lock")
+        expect(versions.hdk).toEqual(Option.some("0.4.2"))
+      }))
+    )
+
+    it("should fall back to Cargo.toml requirements without a lock file", () =>
+      runTest(Effect.gen(function* () {
+        writeFileSync(join(workspace, "Cargo.toml"), `[workspace.dependencies]\nhdk = "0.4"\n`)
+
+        const versions = yield* detect(workspace)
+
+        expect(versions.source).toBe("Cargo.toml")
+        expect(versions.hdk).toEqual(Option.some("0.4"))
+        expect(Option.isNone(versions.hdi)).toBe(true)
+      }))
+    )
+
+    it("should fail with NotFoundError when no Holochain crate is used", () =>
+      runTest(Effect.gen(function* () {
+        writeFileSync(join(workspace, "Cargo.toml"), `[dependencies]\nserde = "1.0"\n`)
+
+        const exit = yield* Effect.exit(detect(workspace))
+
+        expect(Exit.isFailure(exit)).toBe(true)
+        if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+          expect(exit.cause.error._tag).toBe("NotFoundError")
+          expect(exit.cause.error.message).toContain("No hdk or hdi dependency")
+        }
+      }))
+    )
+
+    it("should fail with NotFoundError for a directory without Cargo files", () =>
+      runTest(Effect.gen(function* () {
+        const exit = yield* Effect.exit(detect(workspace))
+
+        expect(Exit.isFailure(exit)).toBe(true)
+        if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+          expect(exit.cause.error.message).toContain("No Cargo.lock or Cargo.toml")
+        }
+      }))
+    )
+  })
+})
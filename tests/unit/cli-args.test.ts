@@ -0,0 +1,39 @@
+import { Either, Option } from "effect"
+import { describe, it, expect } from "vitest"
+import { resolve } from "path"
+import { parseCliArgs, configFromCliOptions } from "../../index.js"
+
+describe("Command Line Parsing", () => {
+  it("should default to serving without an offline mirror", () => {
+    const options = Either.getOrThrow(parseCliArgs([]))
+
+    expect(options.command).toBe("serve")
+    expect(Option.isNone(options.offline)).toBe(true)
+    expect(Option.isNone(configFromCliOptions(options).offlineMirror)).toBe(true)
+  })
+
+  it("should parse the prefetch command into an unbounded mirror cache", () => {
+    const options = Either.getOrThrow(parseCliArgs(["prefetch", "--out", "./mirror"]))
+    const config = configFromCliOptions(options)
+
+    expect(options.command).toBe("prefetch")
+    expect(config.cache.directory).toBe(resolve("./mirror"))
+    expect(config.cache.ttl).toBe(0)
+    expect(config.cache.maxEntries).toBe(Infinity)
+  })
+
+  it("should point the cache at the mirror in offline mode", () => {
+    const config = configFromCliOptions(Either.getOrThrow(parseCliArgs(["--offline", "./mirror"])))
+
+    expect(config.offlineMirror).toEqual(Option.some(resolve("./mirror")))
+    expect(config.cache.directory).toBe(resolve("./mirror"))
+  })
+
+  it("should reject invalid combinations", () => {
+    expect(Either.isLeft(parseCliArgs(["prefetch"]))).toBe(true)
+    expect(Either.isLeft(parseCliArgs(["--out", "./mirror"]))).toBe(true)
+    expect(Either.isLeft(parseCliArgs(["prefetch", "--out", "./a", "--offline", "./b"]))).toBe(true)
+    expect(Either.isLeft(parseCliArgs(["--offline"]))).toBe(true)
+    expect(Either.isLeft(parseCliArgs(["--verbose"]))).toBe(true)
+  })
+})
@@ -0,0 +1,100 @@
+import { Effect, Option } from "effect"
+import { describe, it, expect } from "vitest"
+import { runTest } from "../setup.js"
+import { paginateContent, pageDocument } from "../../index.js"
+
+const paragraph = (word: string) => `${word} `.repeat(30).trim()
+
+const content = [
+  "# Links and Anchors",
+  paragraph("links"),
+  "## Create a link",
+  paragraph("create"),
+  "```rust\nlet hash = create_link(\n    base,\n\n    target,\n)?;\n```",
+  "## Anchors",
+  paragraph("anchor"),
+  "- one\n- two\n- three",
+].join("\n\n")
+
+const doc = {
+  title: "Links and Anchors",
+  url: "https://developer.holochain.org/concepts/5_links_anchors/",
+  source: "developer.holochain.org",
+  content,
+}
+
+describe("Content Pagination", () => {
+  it("should split at heading and paragraph boundaries within the budget", () => {
+    const chunks = paginateContent(content, 400)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.every((chunk) => chunk.length <= 400)).toBe(true)
+    expect(chunks.join("\n\n")).toBe(content)
+    expect(chunks.some((chunk) => chunk.startsWith("## Anchors"))).toBe(true)
+    // The code block, blank line included, stays in one chunk
+    expect(chunks.some((chunk) => chunk.includes("create_link(\n    base,\n\n    target,\n)?;"))).toBe(true)
+  })
+
+  it("should keep oversized code blocks fenced when splitting them", () => {
+    const code = `\`\`\`rust\n${Array.from({ length: 40 }, (_, i) => `let value_${i} = ${i};`).join("\n")}\n\`\`\``
+    const chunks = paginateContent(code, 200)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(chunk.startsWith("```rust\n")).toBe(true)
+      expect(chunk.endsWith("\n```")).toBe(true)
+      expect(chunk.length).toBeLessThanOrEqual(200)
+    }
+  })
+
+  it("should follow continuation cursors to the end of the page", () =>
+    runTest(Effect.gen(function* () {
+      const parts: string[] = []
+      let page = yield* pageDocument(doc, { maxTokens: 100 })
+      parts.push(page.doc.content)
+
+      while (Option.isSome(page.nextCursor)) {
+        page = yield* pageDocument(doc, { cursor: page.nextCursor.value })
+        parts.push(page.doc.content)
+      }
+
+      expect(page.part).toBe(page.parts)
+      expect(parts).toEqual(paginateContent(content, 400))
+    }))
+  )
+
+  it("should return the same chunk for a cursor requested out of order", () =>
+    runTest(Effect.gen(function* () {
+      const first = yield* pageDocument(doc, { maxChars: 300 })
+      const cursor = Option.getOrThrow(first.nextCursor)
+      const second = yield* pageDocument(doc, { cursor })
+      yield* pageDocument(doc, { cursor: Option.getOrThrow(second.nextCursor) })
+      const again = yield* pageDocument(doc, { cursor, maxChars: 50 })
+
+      expect(again.doc.content).toBe(second.doc.content)
+      expect(again.part).toBe(2)
+    }))
+  )
+
+  it("should return the whole page without a budget", () =>
+    runTest(Effect.gen(function* () {
+      const page = yield* pageDocument(doc, {})
+
+      expect(page.doc.content).toBe(content)
+      expect(page.parts).toBe(1)
+      expect(Option.isNone(page.nextCursor)).toBe(true)
+    }))
+  )
+
+  it("should reject cursors for content that has changed", () =>
+    runTest(Effect.gen(function* () {
+      const first = yield* pageDocument(doc, { maxChars: 300 })
+      const cursor = Option.getOrThrow(first.nextCursor)
+      const changed = yield* Effect.flip(pageDocument({ ...doc, content: `${content}\n\nUpdated.` }, { cursor }))
+      const invalid = yield* Effect.flip(pageDocument(doc, { cursor: "not-a-cursor" }))
+
+      expect(changed._tag).toBe("NotFoundError")
+      expect(invalid._tag).toBe("ParseError")
+    }))
+  )
+})
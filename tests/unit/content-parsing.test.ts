@@ -127,20 +127,14 @@ describe("Content Parsing", () => {
       }))
     )
 
-    it("should include common functions even if not found in HTML", () =>
+    it("should fail rather than guess functions when the page links none", () =>
       runTest(Effect.gen(function* () {
         const html = "<html><body></body></html>" // Empty HTML
         const baseUrl = "https://docs.rs/hdk/latest/hdk"
         
-        const result = yield* parseHdkIndex(html, baseUrl)
-        
-        expect(result.length).toBeGreaterThan(0)
+        const error = yield* Effect.flip(parseHdkIndex(html, baseUrl))
         
-        const functionNames = result.map(f => f.name)
-        // Should still include common functions from our fallback
-        expect(functionNames).toContain("create_entry")
-        expect(functionNames).toContain("get_links") 
-        expect(functionNames).toContain("agent_info")
+        expect(error._tag).toBe("ParseError")
       }))
     )
   })
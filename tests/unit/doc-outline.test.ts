@@ -0,0 +1,95 @@
+import { Effect } from "effect"
+import { describe, it, expect } from "vitest"
+import { runTest } from "../setup.js"
+import { documentOutline, selectDocSection } from "../../index.js"
+
+const validationPage = {
+  title: "Validation: Assuring Data Integrity",
+  url: "https://developer.holochain.org/concepts/7_validation/",
+  source: "developer.holochain.org",
+  content: [
+    "# Validation: Assuring Data Integrity",
+    "Holochain DNAs specify validation rules.",
+    "## Validation rules",
+    "Rules are deterministic.",
+    "```rust",
+    "# Not a heading inside a code block",
+    "fn validate(op: Op) -> ExternResult<ValidateCallbackResult> { todo!() }",
+    "```",
+    "### Which ops are [validated](https://example.com)",
+    "All of them.",
+    "## Validation rules",
+    "A second heading with the same text.",
+    "## Key takeaways",
+    "- Validation keeps the DHT honest",
+  ].join("\n"),
+}
+
+describe("Document Outline", () => {
+  it("should list headings with levels and anchors, skipping code blocks", () => {
+    const outline = documentOutline(validationPage)
+
+    expect(outline.headings).toEqual([
+      { level: 1, text: "Validation: Assuring Data Integrity", anchor: "validation-assuring-data-integrity" },
+      { level: 2, text: "Validation rules", anchor: "validation-rules" },
+      { level: 3, text: "Which ops are validated", anchor: "which-ops-are-validated" },
+      { level: 2, text: "Validation rules", anchor: "validation-rules-1" },
+      { level: 2, text: "Key takeaways", anchor: "key-takeaways" },
+    ])
+  })
+
+  it("should return a heading's subtree by anchor id", () =>
+    runTest(Effect.gen(function* () {
+      const section = yield* selectDocSection(validationPage, "#validation-rules")
+
+      expect(section.url).toBe("https://developer.holochain.org/concepts/7_validation/#validation-rules")
+      expect(section.content.split("\n")[0]).toBe("## Validation rules")
+      expect(section.content).toContain("# Not a heading inside a code block")
+      expect(section.content).toContain("All of them.")
+      expect(section.content).not.toContain("A second heading")
+    }))
+  )
+
+  it("should match sections by heading text", () =>
+    runTest(Effect.gen(function* () {
+      const section = yield* selectDocSection(validationPage, "key takeaways")
+
+      expect(section.content).toBe("## Key takeaways\n- Validation keeps the DHT honest")
+    }))
+  )
+
+  it("should prefer the page's own heading ids over slugs", () =>
+    runTest(Effect.gen(function* () {
+      const page = {
+        ...validationPage,
+        content: [
+          "# Struct `Path` {#main-heading}",
+          "## Implementations {#implementations}",
+          "### `fn typed(self, link_type: L)` {#method.typed}",
+          "Typed paths.",
+          "### Notes",
+        ].join("\n"),
+      }
+
+      expect(documentOutline(page).headings).toEqual([
+        { level: 1, text: "Struct Path", anchor: "main-heading" },
+        { level: 2, text: "Implementations", anchor: "implementations" },
+        { level: 3, text: "fn typed(self, link_type: L)", anchor: "method.typed" },
+        { level: 3, text: "Notes", anchor: "notes" },
+      ])
+
+      const section = yield* selectDocSection(page, "#method.typed")
+      expect(section.url).toBe("https://developer.holochain.org/concepts/7_validation/#method.typed")
+      expect(section.content).toContain("Typed paths.")
+    }))
+  )
+
+  it("should list the available sections when none match", () =>
+    runTest(Effect.gen(function* () {
+      const error = yield* Effect.flip(selectDocSection(validationPage, "countersigning"))
+
+      expect(error._tag).toBe("NotFoundError")
+      expect(error.message).toContain("Key takeaways (#key-takeaways)")
+    }))
+  )
+})
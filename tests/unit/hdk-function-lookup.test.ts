@@ -131,28 +131,19 @@ describe("HDK Function Lookup", () => {
     )
   })
 
-  describe("Fallback Functions", () => {
-    it("should include common functions even when HTML is empty", () =>
+  describe("Index Without Function Links", () => {
+    it("should fail instead of inventing functions when HTML is empty", () =>
       runTest(Effect.gen(function* () {
         const html = "<html><body></body></html>"
         const baseUrl = "https://docs.rs/hdk/latest/hdk"
         
-        const functions = yield* parseHdkIndex(html, baseUrl)
-        
-        const names = functions.map(f => f.name)
+        const error = yield* Effect.flip(parseHdkIndex(html, baseUrl))
         
-        // Should include functions from all major modules
-        expect(names).toContain("create_entry")
-        expect(names).toContain("get")
-        expect(names).toContain("create_link")
-        expect(names).toContain("get_links")
-        expect(names).toContain("agent_info")
-        expect(names).toContain("call")
-        expect(names).toContain("hash")
+        expect(error._tag).toBe("ParseError")
       }))
     )
     
-    it("should not duplicate functions found in both HTML and fallback", () =>
+    it("should return only the functions the page links", () =>
       runTest(Effect.gen(function* () {
         const html = `
           <html>
@@ -166,11 +157,7 @@ describe("HDK Function Lookup", () => {
         
         const functions = yield* parseHdkIndex(html, baseUrl)
         
-        const createEntryFunctions = functions.filter(f => f.name === "create_entry")
-        const getLinksFunctions = functions.filter(f => f.name === "get_links")
-        
-        expect(createEntryFunctions).toHaveLength(1)
-        expect(getLinksFunctions).toHaveLength(1)
+        expect(functions.map(f => f.name)).toEqual(["create_entry", "get_links"])
       }))
     )
   })
@@ -178,7 +165,18 @@ describe("HDK Function Lookup", () => {
   describe("Module Organization", () => {
     it("should organize functions by module correctly", () =>
       runTest(Effect.gen(function* () {
-        const html = "<html><body></body></html>" // Use fallback
+        const html = `
+          <html>
+            <body>
+              <a href="entry/fn.create_entry.html">create_entry</a>
+              <a href="entry/fn.get.html">get</a>
+              <a href="entry/fn.update_entry.html">update_entry</a>
+              <a href="link/fn.create_link.html">create_link</a>
+              <a href="link/fn.get_links.html">get_links</a>
+              <a href="agent/fn.agent_info.html">agent_info</a>
+            </body>
+          </html>
+        `
         const baseUrl = "https://docs.rs/hdk/latest/hdk"
         
         const functions = yield* parseHdkIndex(html, baseUrl)
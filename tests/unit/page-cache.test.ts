@@ -0,0 +1,155 @@
+import { Chunk, Effect, Layer, Option, Queue } from "effect"
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { mkdtempSync, rmSync, existsSync, readFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { runTest } from "../setup.js"
+import {
+  HolochainConfigService,
+  PageCacheTag,
+  PageCacheLive,
+  type HolochainConfig,
+} from "../../index.js"
+import { makeTestConfig } from "./test-utils.js"
+
+const withCache = <A, E>(
+  config: HolochainConfig,
+  program: Effect.Effect<A, E, typeof PageCacheTag.Service>
+) =>
+  program.pipe(
+    Effect.provide(
+      PageCacheLive.pipe(Layer.provide(Layer.succeed(HolochainConfigService, config)))
+    )
+  )
+
+describe("Page Cache", () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "holochain-mcp-cache-"))
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("should store pages with metadata", () =>
+    runTest(withCache(makeTestConfig(directory), Effect.gen(function* () {
+      const cache = yield* PageCacheTag
+      const url = "https://docs.rs/hdk/latest/hdk/index.html"
+
+      const entry = yield* cache.set(url, "<html>hdk</html>", { source: "http", etag: "\"abc\"" })
+
+      expect(entry.url).toBe(url)
+      expect(entry.source).toBe("http")
+      expect(entry.etag).toBe("\"abc\"")
+      expect(entry.contentHash).toMatch(/^[0-9a-f]{64}$/)
+      expect(entry.size).toBe(16)
+
+      const cached = yield* cache.get(url)
+      expect(Option.isSome(cached)).toBe(true)
+      if (Option.isSome(cached)) {
+        expect(cached.value.content).toBe("<html>hdk</html>")
+      }
+    })))
+  )
+
+  it("should survive a restart by reloading the on-disk index", async () => {
+    const url = "https://developer.holochain.org/concepts/4_dht"
+    const config = makeTestConfig(directory)
+
+    await runTest(withCache(config, Effect.gen(function* () {
+      const cache = yield* PageCacheTag
+      yield* cache.set(url, "<html>dht</html>", { source: "puppeteer" })
+    })))
+
+    expect(existsSync(join(directory, "index.json"))).toBe(true)
+
+    await runTest(withCache(config, Effect.gen(function* () {
+      const cache = yield* PageCacheTag
+      const cached = yield* cache.get(url)
+
+      expect(Option.isSome(cached)).toBe(true)
+      if (Option.isSome(cached)) {
+        expect(cached.value.content).toBe("<html>dht</html>")
+        expect(cached.value.entry.source).toBe("puppeteer")
+      }
+    })))
+  })
+
+  it("should evict the least recently used page when over the entry limit", () =>
+    runTest(withCache(makeTestConfig(directory, { maxEntries: 2 }), Effect.gen(function* () {
+      const cache = yield* PageCacheTag
+
+      yield* cache.set("https://example.com/a", "a", { source: "http" })
+      yield* cache.set("https://example.com/b", "b", { source: "http" })
+      // Touch "a" so "b" becomes the least recently used entry
+      yield* cache.get("https://example.com/a")
+      yield* cache.set("https://example.com/c", "c", { source: "http" })
+
+      expect(Option.isSome(yield* cache.get("https://example.com/a"))).toBe(true)
+      expect(Option.isNone(yield* cache.get("https://example.com/b"))).toBe(true)
+      expect(Option.isSome(yield* cache.get("https://example.com/c"))).toBe(true)
+    })))
+  )
+
+  it("should evict pages when over the byte limit", () =>
+    runTest(withCache(makeTestConfig(directory, { maxBytes: 10 }), Effect.gen(function* () {
+      const cache = yield* PageCacheTag
+
+      yield* cache.set("https://example.com/a", "aaaaaa", { source: "http" })
+      yield* cache.set("https://example.com/b", "bbbbbb", { source: "http" })
+
+      expect(Option.isNone(yield* cache.get("https://example.com/a"))).toBe(true)
+      expect(Option.isSome(yield* cache.get("https://example.com/b"))).toBe(true)
+
+      const index = JSON.parse(readFileSync(join(directory, "index.json"), "utf-8"))
+      expect(index.entries.map((e: { url: string }) => e.url)).toEqual(["https://example.com/b"])
+    })))
+  )
+
+  it("should drop entries whose content file has gone missing", () =>
+    runTest(withCache(makeTestConfig(directory), Effect.gen(function* () {
+      const cache = yield* PageCacheTag
+      const entry = yield* cache.set("https://example.com/gone", "gone", { source: "http" })
+
+      rmSync(join(directory, "pages", entry.file))
+
+      expect(Option.isNone(yield* cache.get("https://example.com/gone"))).toBe(true)
+    })))
+  )
+
+  it("should report evicted pages as removed", () =>
+    runTest(withCache(makeTestConfig(directory, { maxEntries: 1 }), Effect.scoped(Effect.gen(function* () {
+      const cache = yield* PageCacheTag
+      const changes = yield* cache.changes
+
+      yield* cache.set("https://example.com/a", "first", { source: "http" })
+      yield* cache.set("https://example.com/b", "second", { source: "http" })
+
+      expect(Chunk.toReadonlyArray(yield* Queue.takeAll(changes))).toEqual([
+        { url: "https://example.com/a", removed: false },
+        { url: "https://example.com/b", removed: false },
+        { url: "https://example.com/a", removed: true },
+      ])
+    }))))
+  )
+
+  it("should report pages whose content changed or was removed", () =>
+    runTest(withCache(makeTestConfig(directory), Effect.scoped(Effect.gen(function* () {
+      const cache = yield* PageCacheTag
+      yield* cache.set("https://example.com/a", "first", { source: "http" })
+      const changes = yield* cache.changes
+
+      yield* cache.set("https://example.com/a", "first", { source: "http" })
+      yield* cache.set("https://example.com/a", "second", { source: "http" })
+      yield* cache.remove("https://example.com/a")
+
+      // Storing identical content is not a change
+      expect(Chunk.toReadonlyArray(yield* Queue.takeAll(changes))).toEqual([
+        { url: "https://example.com/a", removed: false },
+        { url: "https://example.com/a", removed: true },
+      ])
+    }))))
+  )
+})
@@ -0,0 +1,162 @@
+import { Effect, Layer } from "effect"
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { mkdtempSync, rmSync, existsSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { runTest } from "../setup.js"
+import {
+  HolochainConfigService,
+  SearchIndexTag,
+  SearchIndexLive,
+  type HolochainConfig,
+} from "../../index.js"
+import { MockResponses } from "../fixtures/mock-http-responses.js"
+import { makeTestConfig } from "./test-utils.js"
+
+const page = (title: string, body: string) => `
+  <html>
+    <head><title>${title}</title></head>
+    <body><main><h1>${title}</h1><p>${body}</p></main></body>
+  </html>
+`
+
+const withIndex = <A, E>(
+  directory: string,
+  program: Effect.Effect<A, E, typeof SearchIndexTag.Service>,
+  cache: Partial<HolochainConfig["cache"]> = {}
+) =>
+  program.pipe(
+    Effect.provide(
+      SearchIndexLive.pipe(Layer.provide(Layer.succeed(HolochainConfigService, makeTestConfig(directory, cache))))
+    )
+  )
+
+describe("Search Index", () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "holochain-mcp-search-"))
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("should rank pages by BM25 relevance", () =>
+    runTest(withIndex(directory, Effect.gen(function* () {
+      const index = yield* SearchIndexTag
+
+      yield* index.indexPage("https://developer.holochain.org/concepts/7_validation", MockResponses.VALIDATION_PAGE)
+      yield* index.indexPage("https://developer.holochain.org/concepts/4_dht", page(
+        "The DHT: A Shared, Distributed Graph Database",
+        "Agents share data on the DHT. Peers gossip and hold data, and validation happens before data is stored."
+      ))
+      yield* index.indexPage("https://developer.holochain.org/concepts/1_the_basics", page(
+        "Holochain Basics",
+        "Holochain is a framework for peer-to-peer applications."
+      ))
+
+      const results = yield* index.search("validation rules", {
+        urlPrefix: "https://developer.holochain.org",
+        limit: 5,
+      })
+
+      expect(results.map((r) => r.url)).toEqual([
+        "https://developer.holochain.org/concepts/7_validation",
+        "https://developer.holochain.org/concepts/4_dht",
+      ])
+      const [first, second] = results.map((r) => r.score)
+      expect(first).toBeGreaterThan(second ?? Infinity)
+      expect(results[0]?.snippet.toLowerCase()).toContain("validation")
+    })))
+  )
+
+  it("should match snake_case identifiers by their parts", () =>
+    runTest(withIndex(directory, Effect.gen(function* () {
+      const index = yield* SearchIndexTag
+      const url = "https://docs.rs/hdk/0.4.2/hdk/entry/fn.create_entry.html"
+
+      yield* index.indexPage(url, MockResponses.HDK_CREATE_ENTRY_PAGE)
+
+      const byIdentifier = yield* index.search("create_entry", { urlPrefix: "https://docs.rs/hdk/", limit: 5 })
+      const byWords = yield* index.search("create entry", { urlPrefix: "https://docs.rs/hdk/", limit: 5 })
+
+      expect(byIdentifier.map((r) => r.url)).toEqual([url])
+      expect(byWords.map((r) => r.url)).toEqual([url])
+    })))
+  )
+
+  it("should only return pages under the requested URL prefix", () =>
+    runTest(withIndex(directory, Effect.gen(function* () {
+      const index = yield* SearchIndexTag
+      const body = page("entry - Rust", "Create, update and delete entries.")
+
+      yield* index.indexPage("https://docs.rs/hdk/0.3.0/hdk/entry/index.html", body)
+      yield* index.indexPage("https://docs.rs/hdk/0.4.2/hdk/entry/index.html", body)
+
+      const results = yield* index.search("entries", { urlPrefix: "https://docs.rs/hdk/0.4.2/hdk/", limit: 5 })
+
+      expect(results.map((r) => r.url)).toEqual(["https://docs.rs/hdk/0.4.2/hdk/entry/index.html"])
+    })))
+  )
+
+  it("should replace a page's terms when its content changes", () =>
+    runTest(withIndex(directory, Effect.gen(function* () {
+      const index = yield* SearchIndexTag
+      const url = "https://developer.holochain.org/concepts/5_links_anchors"
+
+      yield* index.indexPage(url, page("Links and Anchors", "Anchors are well-known paths."))
+      yield* index.indexPage(url, page("Links and Anchors", "Links connect two addresses."))
+
+      expect(yield* index.search("anchors paths", { urlPrefix: "", limit: 5 })).toHaveLength(1)
+      expect(yield* index.search("paths", { urlPrefix: "", limit: 5 })).toHaveLength(0)
+      expect(yield* index.search("addresses", { urlPrefix: "", limit: 5 })).toHaveLength(1)
+    })))
+  )
+
+  it("should drop removed pages", () =>
+    runTest(withIndex(directory, Effect.gen(function* () {
+      const index = yield* SearchIndexTag
+      const url = "https://developer.holochain.org/concepts/5_links_anchors"
+
+      yield* index.indexPage(url, page("Links and Anchors", "Anchors are well-known paths."))
+      yield* index.removePage(url)
+
+      expect(yield* index.search("anchors", { urlPrefix: "", limit: 5 })).toHaveLength(0)
+    })))
+  )
+
+  it("should hold no more pages than the page cache", () =>
+    runTest(withIndex(directory, Effect.gen(function* () {
+      const index = yield* SearchIndexTag
+
+      yield* index.indexPage("https://developer.holochain.org/a", page("Anchors", "Anchors are paths."))
+      yield* index.indexPage("https://developer.holochain.org/b", page("Anchors again", "Anchors are paths."))
+      yield* index.indexPage("https://developer.holochain.org/c", page("More anchors", "Anchors are paths."))
+
+      const results = yield* index.search("anchors", { urlPrefix: "", limit: 5 })
+      expect(results.map((r) => r.url).sort()).toEqual([
+        "https://developer.holochain.org/b",
+        "https://developer.holochain.org/c",
+      ])
+    }), { maxEntries: 2 }))
+  )
+
+  it("should persist the index next to the page cache", async () => {
+    const url = "https://developer.holochain.org/concepts/7_validation"
+
+    await runTest(withIndex(directory, Effect.gen(function* () {
+      const index = yield* SearchIndexTag
+      yield* index.indexPage(url, MockResponses.VALIDATION_PAGE)
+    })))
+
+    expect(existsSync(join(directory, "search-index.json"))).toBe(true)
+
+    await runTest(withIndex(directory, Effect.gen(function* () {
+      const index = yield* SearchIndexTag
+      const results = yield* index.search("validation", { urlPrefix: "", limit: 5 })
+
+      expect(results.map((r) => r.url)).toEqual([url])
+    })))
+  })
+})
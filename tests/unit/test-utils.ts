@@ -1,5 +1,6 @@
 import { Effect, Option } from "effect"
 import * as cheerio from "cheerio"
+import type { HolochainConfig } from "../../index.js"
 
 // Error types for testing
 export class ParseError extends Error {
@@ -268,35 +269,111 @@ export const parseHdkIndex = (
         })
       })
 
-      // Also look for module-based functions by exploring module pages
-      const modules = ['entry', 'link', 'agent', 'chain', 'p2p', 'capability', 'hash', 'info']
-      modules.forEach(module => {
-        // Add common functions we know exist in each module
-        const commonFunctions: Record<string, string[]> = {
-          entry: ['create_entry', 'get', 'update_entry', 'delete_entry'],
-          link: ['create_link', 'get_links', 'delete_link', 'get_link_details'],
-          agent: ['agent_info'],
-          chain: ['get_chain_head', 'query'],
-          p2p: ['call', 'call_remote', 'emit_signal'],
-          capability: ['create_cap_grant', 'create_cap_claim'],
-          hash: ['hash'],
-          info: ['dna_info', 'zome_info', 'call_info']
-        }
-
-        if (commonFunctions[module]) {
-          commonFunctions[module].forEach(funcName => {
-            if (!seenFunctions.has(funcName)) {
-              seenFunctions.add(funcName)
-              functions.push({
-                name: funcName,
-                url: `${baseUrl}/${module}/fn.${funcName}.html`
-              })
-            }
-          })
-        }
-      })
-
       return functions
     },
     catch: (error) => new ParseError(`Failed to parse HDK index: ${error}`),
-  })
\ No newline at end of file
+  }).pipe(
+    Effect.filterOrFail(
+      (functions) => functions.length > 0,
+      () => new ParseError(`No function links found on HDK index ${baseUrl}`)
+    )
+  )
+
+// Server configuration pointing the page cache at a throwaway directory
+export const makeTestConfig = (
+  cacheDirectory: string,
+  cacheOverrides: Partial<HolochainConfig["cache"]> = {}
+): HolochainConfig => ({
+  baseUrls: {
+    developer: "https://developer.holochain.org",
+    docsRs: "https://docs.rs",
+  },
+  defaultVersions: {
+    hdk: "latest",
+    hdi: "latest",
+  },
+  timeout: 10000,
+  userAgent: "Holochain-MCP-Server/test",
+  cache: {
+    directory: cacheDirectory,
+    ttl: 60_000,
+    maxEntries: 10,
+    maxBytes: 1024 * 1024,
+    ...cacheOverrides,
+  },
+  browser: {
+    maxPages: 2,
+    recycleAfter: 10,
+  },
+  retry: {
+    timeout: { retries: 1, baseDelay: 1 },
+    serverError: { retries: 2, baseDelay: 1 },
+    rateLimited: { retries: 2, baseDelay: 1 },
+    maxRetryAfter: 5_000,
+  },
+  rateLimit: {
+    requestsPerSecond: 1000,
+    burst: 1000,
+  },
+  offlineMirror: Option.none(),
+})
+
+// Stand-ins for Chromium, for tests that pass their own browser launcher.
+// Navigations take a moment, so overlapping renders can be counted, and
+// each page's HTML comes from the browser's render function
+export class FakePage {
+  closed = false
+  gotos: string[] = []
+
+  constructor(private readonly browser: FakeBrowser) {}
+
+  async setRequestInterception() {}
+  on() {}
+
+  async goto(url: string) {
+    this.gotos.push(url)
+    this.browser.inFlight++
+    this.browser.maxInFlight = Math.max(this.browser.maxInFlight, this.browser.inFlight)
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    this.browser.inFlight--
+    return { status: () => 200, headers: () => ({}) }
+  }
+
+  async content() {
+    return this.browser.render(this.gotos.at(-1) ?? "")
+  }
+
+  async close() {
+    this.closed = true
+  }
+}
+
+export class FakeBrowser {
+  pages: FakePage[] = []
+  closed = false
+  inFlight = 0
+  maxInFlight = 0
+  private disconnectedHandler: (() => void) | undefined
+
+  constructor(
+    readonly render: (url: string) => string = (url) => `<html><body>${url}</body></html>`
+  ) {}
+
+  async newPage() {
+    const page = new FakePage(this)
+    this.pages.push(page)
+    return page
+  }
+
+  on(event: string, handler: () => void) {
+    if (event === "disconnected") this.disconnectedHandler = handler
+  }
+
+  async close() {
+    this.closed = true
+  }
+
+  crash() {
+    this.disconnectedHandler?.()
+  }
+}